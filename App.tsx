@@ -5,8 +5,9 @@ import Navigation from './components/Navigation';
 import MapPage from './pages/MapPage';
 import AdminPage from './pages/AdminPage';
 import LoginPage from './pages/LoginPage';
-import type { CampusData, Page, User, Dataset } from './types';
+import type { CampusData, Closure, Page, Role, User, Dataset, NavigationGraph } from './types';
 import { dbService } from './services/db';
+import { RoutingEngine } from './services/routingEngine';
 
 function AppErrorFallback({ error, resetErrorBoundary }: { error: Error; resetErrorBoundary: () => void }) {
   return (
@@ -32,11 +33,15 @@ const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [currentPage, setCurrentPage] = useState<Page>('map');
   const [currentData, setCurrentData] = useState<CampusData>({ sites: [], facilities: [], levels: [], units: [], details: [] });
+  const [currentGraph, setCurrentGraph] = useState<NavigationGraph | null>(null);
   const [datasets, setDatasets] = useState<Dataset[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
   const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [mapOrigin, setMapOrigin] = useState<{ lat: number; lon: number } | null>(null);
+  const [blockedExitIds, setBlockedExitIds] = useState<string[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
 
   const loadData = useCallback(async () => {
     setLoadingMessage('Fetching campus data...');
@@ -48,6 +53,12 @@ const App: React.FC = () => {
     setDatasets(datasetList);
 
     const activeDataset = datasetList.find(d => d.isActive);
+    setLoadingMessage('Loading navigation graph...');
+    setCurrentGraph(activeDataset ? await dbService.getNavigationGraph(activeDataset.id) : null);
+    setBlockedExitIds(activeDataset ? await dbService.getBlockedExits(activeDataset.id) : []);
+    setClosures(activeDataset ? await dbService.getClosures(activeDataset.id) : []);
+    setUsers(await dbService.getUsers());
+
     if (activeDataset && activeDataset.originLat != null && activeDataset.originLon != null) {
       setMapOrigin({ lat: activeDataset.originLat, lon: activeDataset.originLon });
     } else if (data.sites.length > 0 && data.sites[0].polygon.length > 0) {
@@ -95,10 +106,20 @@ const App: React.FC = () => {
     uploadResult: { campusData: CampusData; mapOrigin?: { lat: number, lon: number } }
   ) => {
     setLoading(true);
-    setLoadingMessage('Importing new dataset...');
+    setLoadingMessage('Building navigation graph...');
     setUploadProgress(0);
 
+    // The graph is built off the main thread and stored along with the data
+    const engine = new RoutingEngine();
     try {
+      const graph = await engine.build(uploadResult.campusData, {
+        onProgress: (progress) => {
+          setUploadProgress(progress);
+          setLoadingMessage(`Building navigation graph... ${Math.round(progress)}%`);
+        },
+      });
+      setLoadingMessage('Importing new dataset...');
+      setUploadProgress(0);
       await dbService.addDataset(
         name,
         uploadResult.campusData,
@@ -107,7 +128,8 @@ const App: React.FC = () => {
           setUploadProgress(progress);
           setLoadingMessage(`Importing... ${Math.round(progress)}%`);
         },
-        uploadResult.mapOrigin
+        uploadResult.mapOrigin,
+        graph
       );
       await loadData(); // Reload all data, which will update the map origin
       alert('New dataset loaded successfully!');
@@ -116,6 +138,7 @@ const App: React.FC = () => {
       console.error("Failed to upload dataset:", e);
       alert(`Data upload failed. Please check the file format and console for errors. Error: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
+      engine.dispose();
       setLoading(false);
       setUploadProgress(null);
     }
@@ -129,6 +152,43 @@ const App: React.FC = () => {
     setLoading(false);
   }
 
+  const handleSetExitBlocked = async (unitId: string, blocked: boolean) => {
+    const activeDataset = datasets.find(d => d.isActive);
+    if (!activeDataset) return;
+    await dbService.setExitBlocked(activeDataset.id, unitId, blocked);
+    setBlockedExitIds(await dbService.getBlockedExits(activeDataset.id));
+  };
+
+  // The stored graph was missing or outdated, so the routing worker built a new one
+  const handleGraphBuilt = async (graph: NavigationGraph) => {
+    const activeDataset = datasets.find(d => d.isActive);
+    if (!activeDataset) return;
+    try {
+      await dbService.saveNavigationGraph(activeDataset.id, graph);
+    } catch (e) {
+      console.error("Failed to store navigation graph:", e);
+    }
+  };
+
+  const handleAddClosure = async (closure: Omit<Closure, 'id'>) => {
+    const activeDataset = datasets.find(d => d.isActive);
+    if (!activeDataset) return;
+    await dbService.addClosure(activeDataset.id, closure);
+    setClosures(await dbService.getClosures(activeDataset.id));
+  };
+
+  const handleDeleteClosure = async (id: number) => {
+    const activeDataset = datasets.find(d => d.isActive);
+    if (!activeDataset) return;
+    await dbService.deleteClosure(id);
+    setClosures(await dbService.getClosures(activeDataset.id));
+  };
+
+  const handleSetUserRole = async (username: string, role: Role) => {
+    await dbService.setUserRole(username, role);
+    setUsers(await dbService.getUsers());
+  };
+
   const handleDeleteDataset = async (id: number) => {
     if (window.confirm('Are you sure you want to delete this dataset? This action cannot be undone.')) {
       setLoading(true);
@@ -186,7 +246,19 @@ const App: React.FC = () => {
         />
         <main className="flex-1 min-h-0 overflow-hidden">
           <ErrorBoundary FallbackComponent={AppErrorFallback}>
-            {currentPage === 'map' && <MapPage campusData={currentData} mapOrigin={mapOrigin} activeDatasetName={activeDatasetName} />}
+            {currentPage === 'map' && (
+              <MapPage
+                campusData={currentData}
+                navGraph={currentGraph}
+                onGraphBuilt={handleGraphBuilt}
+                mapOrigin={mapOrigin}
+                activeDatasetName={activeDatasetName}
+                userRole={currentUser.role}
+                blockedExitIds={blockedExitIds}
+                onSetExitBlocked={handleSetExitBlocked}
+                closures={closures}
+              />
+            )}
             {currentPage === 'admin' && (
               <AdminPage
                 datasets={datasets}
@@ -194,6 +266,12 @@ const App: React.FC = () => {
                 onDataUpload={handleDataUpload}
                 onSwitchDataset={handleSwitchDataset}
                 onDeleteDataset={handleDeleteDataset}
+                closures={closures}
+                onAddClosure={handleAddClosure}
+                onDeleteClosure={handleDeleteClosure}
+                users={users}
+                currentUser={currentUser}
+                onSetUserRole={handleSetUserRole}
               />
             )}
           </ErrorBoundary>
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import type { CampusData, Closure, ClosureTargetType } from '../types';
+import { DetailType, UnitType } from '../types';
+import { getClosureTargetName, isClosureActive } from '../services/closures';
+
+interface ClosureManagerProps {
+  campusData: CampusData;
+  closures: Closure[];
+  onAddClosure: (closure: Omit<Closure, 'id'>) => Promise<void>;
+  onDeleteClosure: (id: number) => Promise<void>;
+}
+
+const TARGET_TYPE_LABELS: Record<ClosureTargetType, string> = {
+  unit: 'Space',
+  door: 'Door',
+  connector: 'Stairs / elevator',
+};
+
+// Value for a datetime-local input, in local time
+const toLocalInputValue = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const closureStatus = (closure: Closure, now: Date): string => {
+  if (isClosureActive(closure, now)) return 'Active';
+  return new Date(closure.startsAt) > now ? 'Scheduled' : 'Ended';
+};
+
+/** Admin list and form for temporary closures of spaces, doors and stairs/elevators. */
+const ClosureManager: React.FC<ClosureManagerProps> = ({ campusData, closures, onAddClosure, onDeleteClosure }) => {
+  const [targetType, setTargetType] = useState<ClosureTargetType>('unit');
+  const [targetId, setTargetId] = useState('');
+  const [reason, setReason] = useState('');
+  const [startsAt, setStartsAt] = useState(() => toLocalInputValue(new Date()));
+  const [endsAt, setEndsAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const targetOptions = useMemo(() => {
+    const levelName = (levelId: string) => campusData.levels.find(l => l.id === levelId)?.name ?? 'Unknown level';
+    switch (targetType) {
+      case 'unit':
+        return campusData.units
+          .map(u => ({ id: u.id, label: `${u.name} (${levelName(u.levelId)})` }))
+          .sort((a, b) => a.label.localeCompare(b.label));
+      case 'door':
+        return campusData.details
+          .filter(d => d.type === DetailType.DOOR)
+          .map(d => ({ id: d.id, label: `Door ${d.id} (${levelName(d.levelId)})` }))
+          .sort((a, b) => a.label.localeCompare(b.label));
+      case 'connector': {
+        const connectors = new Map<string, string>();
+        campusData.units
+          .filter(u => (u.type === UnitType.STAIRS || u.type === UnitType.ELEVATOR) && u.verticalConnectorId)
+          .forEach(u => { if (!connectors.has(u.verticalConnectorId!)) connectors.set(u.verticalConnectorId!, u.name); });
+        return Array.from(connectors, ([id, name]) => ({ id, label: name })).sort((a, b) => a.label.localeCompare(b.label));
+      }
+    }
+  }, [campusData, targetType]);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!targetId || !reason.trim() || !startsAt) {
+      setError('Choose what to close, give a reason and a start time.');
+      return;
+    }
+    if (endsAt && new Date(endsAt) <= new Date(startsAt)) {
+      setError('The closure must end after it starts.');
+      return;
+    }
+    setError(null);
+    await onAddClosure({
+      targetType,
+      targetId,
+      reason: reason.trim(),
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: endsAt ? new Date(endsAt).toISOString() : null,
+    });
+    setTargetId('');
+    setReason('');
+    setEndsAt('');
+  };
+
+  const now = new Date();
+  const inputClasses = "w-full bg-gray-800 border-gray-600 rounded-md shadow-sm text-white text-sm focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="md:col-span-2 bg-gray-900/50 p-6 rounded-lg">
+      <h3 className="text-xl font-semibold text-gray-200 mb-4">Closures</h3>
+      <p className="text-sm text-gray-400 mb-4">
+          Temporarily close a space, door or stair/elevator shaft of the active dataset. Routes avoid it while the closure is active.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label htmlFor="closure-type" className="block text-sm font-medium text-gray-300 mb-1">Close a</label>
+          <select
+            id="closure-type"
+            value={targetType}
+            onChange={e => { setTargetType(e.target.value as ClosureTargetType); setTargetId(''); }}
+            className={inputClasses}
+          >
+            {Object.entries(TARGET_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="closure-target" className="block text-sm font-medium text-gray-300 mb-1">{TARGET_TYPE_LABELS[targetType]}</label>
+          <select id="closure-target" value={targetId} onChange={e => setTargetId(e.target.value)} className={inputClasses}>
+            <option value="">Select...</option>
+            {targetOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="closure-reason" className="block text-sm font-medium text-gray-300 mb-1">Reason</label>
+          <input
+            id="closure-reason"
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="e.g. Elevator out of service"
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label htmlFor="closure-start" className="block text-sm font-medium text-gray-300 mb-1">Starts</label>
+          <input id="closure-start" type="datetime-local" value={startsAt} onChange={e => setStartsAt(e.target.value)} className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="closure-end" className="block text-sm font-medium text-gray-300 mb-1">Ends (optional)</label>
+          <input id="closure-end" type="datetime-local" value={endsAt} onChange={e => setEndsAt(e.target.value)} className={inputClasses} />
+        </div>
+        <div className="flex items-end">
+          <button type="submit" className="w-full bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors">
+            Add Closure
+          </button>
+        </div>
+      </form>
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-md text-sm">
+            {error}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-72 overflow-y-auto pr-2">
+        {closures.length === 0 && (
+          <div className="text-center text-gray-400 p-4 border-2 border-dashed border-gray-600 rounded-lg">
+              No closures.
+          </div>
+        )}
+        {closures.map(closure => {
+          const status = closureStatus(closure, now);
+          return (
+            <div key={closure.id} className={`p-3 rounded-md flex justify-between items-center ${status === 'Active' ? 'bg-red-900/30 border border-red-700' : 'bg-gray-700/50'}`}>
+              <div>
+                <p className="font-semibold text-gray-200">
+                  {getClosureTargetName(closure, campusData)} <span className="text-xs font-normal text-gray-400">· {status}</span>
+                </p>
+                <p className="text-sm text-gray-300">{closure.reason}</p>
+                <p className="text-xs text-gray-400">
+                  {new Date(closure.startsAt).toLocaleString()} – {closure.endsAt ? new Date(closure.endsAt).toLocaleString() : 'until further notice'}
+                </p>
+              </div>
+              <button
+                onClick={() => onDeleteClosure(closure.id)}
+                className="px-3 py-1 text-sm font-medium rounded-md transition-colors bg-red-600 text-white hover:bg-red-700"
+                aria-label={`Delete closure of ${getClosureTargetName(closure, campusData)}`}
+              >
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ClosureManager;
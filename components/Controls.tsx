@@ -1,6 +1,8 @@
-import React from 'react';
-import type { Level, Unit } from '../types';
-import { AccessibilityFilter, UnitType } from '../types';
+import React, { useState } from 'react';
+import type { Level, NavigationStep, NearbyUnit, RouteMetric, RouteSummary, RoutingProfile, RoutingProfileId, Unit } from '../types';
+import { UnitType } from '../types';
+import { AMENITY_CATEGORIES, ROUTING_PROFILES } from '../constants';
+import type { GeneratedInstructions } from '../services/navigationService';
 import Legend from './Legend';
 
 interface ControlsProps {
@@ -10,20 +12,76 @@ interface ControlsProps {
   setStartUnit: (id: string) => void;
   endUnit: string | null;
   setEndUnit: (id: string) => void;
-  filter: AccessibilityFilter;
-  setFilter: (filter: AccessibilityFilter) => void;
+  // Whether start/end are exact points picked on the map rather than whole units
+  startIsPoint: boolean;
+  endIsPoint: boolean;
+  pickTarget: 'start' | 'end' | null; // Which end the next map click sets
+  onPickOnMap: (target: 'start' | 'end' | null) => void;
+  stops: string[];
+  setStops: (stops: string[]) => void;
+  optimiseStopOrder: boolean;
+  setOptimiseStopOrder: (optimise: boolean) => void;
+  nearbyResults: NearbyUnit[] | null;
+  isSearchingNearby: boolean;
+  onFindNearby: (unitTypes: UnitType[]) => void;
+  onRouteToNearby: (result: NearbyUnit) => void;
+  // The profiles the user's role may pick
+  routingProfiles: RoutingProfile[];
+  profileId: RoutingProfileId;
+  setProfileId: (id: RoutingProfileId) => void;
+  routeMetric: RouteMetric;
+  setRouteMetric: (metric: RouteMetric) => void;
   onFindPath: () => void;
   onClearPath: () => void;
   path: string[] | null;
-  pathInstructions: string;
+  pathInstructions: string; // Shown when there are no steps, e.g. when no path was found
+  navigationSteps: NavigationStep[];
+  draftSteps: string[]; // Step texts still being written by the model
+  instructionSource: GeneratedInstructions['source'] | null; // 'rules' when the local model was unavailable
+  playbackStepIndex: number | null; // Step that 3D route playback has reached
+  selectedStepIndex: number | null; // Step highlighted and zoomed to on the map
+  onSelectStep: (index: number | null) => void;
   isGeneratingInstructions: boolean;
   viewMode: '2D' | '3D';
   selectedLevelId: string;
   setSelectedLevelId: (id: string) => void;
   pathDistance: number | null;
+  pathDuration: number | null;
+  detourNotes: string[]; // Closures the route goes around, with their reasons
+  detourExtraTime: number | null; // Seconds the detours add
+  alternatives: RouteSummary[]; // Routes to choose from, best first; empty for multi-stop routes
+  selectedAlternative: number;
+  onSelectAlternative: (index: number) => void;
+  onHighlightAlternative: (index: number | null) => void;
+  graphProgress: number | null;
+  routingProgress: number | null;
   activeDatasetName: string;
 }
 
+const ROUTE_METRIC_LABELS: Record<RouteMetric, string> = {
+  distance: 'Shortest',
+  time: 'Fastest',
+};
+
+// Rounds an ETA to whole minutes, or seconds for very short routes
+const formatDuration = (seconds: number): string =>
+  seconds < 60 ? `${Math.round(seconds)} s` : `${Math.round(seconds / 60)} min`;
+
+// "Stairs", "Elevator", "Stairs, then elevator" or "Same floor"
+const describeConnectors = (summary: RouteSummary): string => {
+  if (summary.connectorTypes.length === 0) return 'Same floor';
+  const names = summary.connectorTypes.map(type => type.toLowerCase());
+  const text = names.join(', then ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// "Find nearby" targets are either an amenity category or a single unit type
+const resolveNearbyTarget = (target: string): UnitType[] => {
+  const [kind, id] = target.split(':');
+  if (kind === 'category') return AMENITY_CATEGORIES.find(c => c.id === id)?.unitTypes ?? [];
+  return [id as UnitType];
+};
+
 const Controls: React.FC<ControlsProps> = ({
   units,
   levels,
@@ -31,17 +89,47 @@ const Controls: React.FC<ControlsProps> = ({
   setStartUnit,
   endUnit,
   setEndUnit,
-  filter,
-  setFilter,
+  startIsPoint,
+  endIsPoint,
+  pickTarget,
+  onPickOnMap,
+  stops,
+  setStops,
+  optimiseStopOrder,
+  setOptimiseStopOrder,
+  nearbyResults,
+  isSearchingNearby,
+  onFindNearby,
+  onRouteToNearby,
+  routingProfiles,
+  profileId,
+  setProfileId,
+  routeMetric,
+  setRouteMetric,
   onFindPath,
   onClearPath,
   path,
   pathInstructions,
+  navigationSteps,
+  draftSteps,
+  instructionSource,
+  playbackStepIndex,
+  selectedStepIndex,
+  onSelectStep,
   isGeneratingInstructions,
   viewMode,
   selectedLevelId,
   setSelectedLevelId,
   pathDistance,
+  pathDuration,
+  detourNotes,
+  detourExtraTime,
+  alternatives,
+  selectedAlternative,
+  onSelectAlternative,
+  onHighlightAlternative,
+  graphProgress,
+  routingProgress,
   activeDatasetName,
 }) => {
   const selectableUnits = units.filter(u => {
@@ -54,6 +142,13 @@ const Controls: React.FC<ControlsProps> = ({
       return selectableTypes.includes(u.type);
     }).sort((a,b) => a.name.localeCompare(b.name));
 
+  const [nearbyTarget, setNearbyTarget] = useState(`category:${AMENITY_CATEGORIES[0].id}`);
+
+  const unitLabel = (unitId: string) => {
+    const unit = units.find(u => u.id === unitId);
+    return unit ? `${unit.name} (L${levels.find(l => l.id === unit.levelId)?.name})` : unitId;
+  };
+
   return (
     <div className="w-96 flex-shrink-0 bg-gray-900/80 backdrop-blur-sm p-6 space-y-6 overflow-y-auto h-full shadow-2xl rounded-r-2xl border-l border-gray-700">
       <div>
@@ -64,33 +159,79 @@ const Controls: React.FC<ControlsProps> = ({
       </div>
 
       <div className="space-y-4">
+        {(['start', 'end'] as const).map(target => {
+          const isStart = target === 'start';
+          const unitId = isStart ? startUnit : endUnit;
+          const isPoint = isStart ? startIsPoint : endIsPoint;
+          return (
+            <div key={target}>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor={`${target}-unit`} className="block text-sm font-medium text-gray-300">{isStart ? 'Start Location' : 'End Location'}</label>
+                <button
+                  onClick={() => onPickOnMap(pickTarget === target ? null : target)}
+                  className={`text-xs font-medium ${pickTarget === target ? 'text-yellow-300' : 'text-indigo-300 hover:text-indigo-200'}`}
+                  aria-pressed={pickTarget === target}
+                >
+                  {pickTarget === target ? 'Cancel' : 'Pick on map'}
+                </button>
+              </div>
+              <select
+                id={`${target}-unit`}
+                value={unitId || ''}
+                onChange={(e) => (isStart ? setStartUnit : setEndUnit)(e.target.value)}
+                className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm text-white focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="" disabled>{isStart ? 'Select a starting point' : 'Select a destination'}</option>
+                {/* Map picks can land in spaces that are not offered in the list */}
+                {unitId && !selectableUnits.some(u => u.id === unitId) && <option value={unitId}>{unitLabel(unitId)}</option>}
+                {selectableUnits.map(unit => (
+                  <option key={unit.id} value={unit.id}>{unit.name} (L{levels.find(l => l.id === unit.levelId)?.name})</option>
+                ))}
+              </select>
+              {pickTarget === target && <p className="text-xs text-yellow-300 mt-1">Click a space on the map to set the {isStart ? 'start' : 'destination'}.</p>}
+              {pickTarget !== target && isPoint && <p className="text-xs text-gray-400 mt-1">{isStart ? 'Routes from' : 'Routes to'} the exact point picked on the map.</p>}
+            </div>
+          );
+        })}
         <div>
-          <label htmlFor="start-unit" className="block text-sm font-medium text-gray-300 mb-1">Start Location</label>
-          <select
-            id="start-unit"
-            value={startUnit || ''}
-            onChange={(e) => setStartUnit(e.target.value)}
-            className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm text-white focus:ring-indigo-500 focus:border-indigo-500"
-          >
-            <option value="" disabled>Select a starting point</option>
-            {selectableUnits.map(unit => (
-              <option key={unit.id} value={unit.id}>{unit.name} (L{levels.find(l => l.id === unit.levelId)?.name})</option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label htmlFor="end-unit" className="block text-sm font-medium text-gray-300 mb-1">End Location</label>
+          <label htmlFor="add-stop" className="block text-sm font-medium text-gray-300 mb-1">Stops</label>
+          {stops.length > 0 && (
+            <ol className="mb-2 space-y-1">
+              {stops.map((stopId, index) => (
+                <li key={`${stopId}-${index}`} className="flex items-center justify-between bg-gray-800 rounded-md px-2 py-1 text-sm text-gray-300">
+                  <span>{index + 1}. {unitLabel(stopId)}</span>
+                  <button
+                    onClick={() => setStops(stops.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-white"
+                    aria-label={`Remove stop ${index + 1}`}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
           <select
-            id="end-unit"
-            value={endUnit || ''}
-            onChange={(e) => setEndUnit(e.target.value)}
+            id="add-stop"
+            value=""
+            onChange={(e) => e.target.value && setStops([...stops, e.target.value])}
             className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm text-white focus:ring-indigo-500 focus:border-indigo-500"
           >
-            <option value="" disabled>Select a destination</option>
+            <option value="">Add a stop...</option>
             {selectableUnits.map(unit => (
               <option key={unit.id} value={unit.id}>{unit.name} (L{levels.find(l => l.id === unit.levelId)?.name})</option>
             ))}
           </select>
+          <label className="flex items-center space-x-2 text-gray-300 text-sm mt-2">
+            <input
+              type="checkbox"
+              checked={optimiseStopOrder}
+              onChange={(e) => setOptimiseStopOrder(e.target.checked)}
+              disabled={stops.length < 2}
+              className="text-indigo-500 bg-gray-700 border-gray-600 rounded focus:ring-indigo-500"
+            />
+            <span>Optimise stop order</span>
+          </label>
         </div>
       </div>
       
@@ -111,31 +252,105 @@ const Controls: React.FC<ControlsProps> = ({
       )}
 
       <div>
-        <h3 className="text-sm font-medium text-gray-300 mb-2">Accessibility Options</h3>
-        <div className="space-y-2">
-          {Object.values(AccessibilityFilter).map(f => (
-            <label key={f} className="flex items-center space-x-2 text-gray-300 capitalize">
+        <label htmlFor="nearby-target" className="block text-sm font-medium text-gray-300 mb-1">Find Nearby</label>
+        <div className="flex space-x-2">
+          <select
+            id="nearby-target"
+            value={nearbyTarget}
+            onChange={(e) => setNearbyTarget(e.target.value)}
+            className="flex-1 bg-gray-800 border-gray-600 rounded-md shadow-sm text-white focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <optgroup label="Categories">
+              {AMENITY_CATEGORIES.map(category => (
+                <option key={category.id} value={`category:${category.id}`}>{category.name}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Unit types">
+              {Object.values(UnitType).map(type => (
+                <option key={type} value={`type:${type}`} className="capitalize">{type.toLowerCase()}</option>
+              ))}
+            </optgroup>
+          </select>
+          <button
+            onClick={() => onFindNearby(resolveNearbyTarget(nearbyTarget))}
+            disabled={!startUnit || isSearchingNearby || graphProgress !== null}
+            className="bg-indigo-600 text-white font-bold py-2 px-3 rounded-md hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSearchingNearby ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+        {!startUnit && <p className="text-xs text-gray-400 mt-1">Select a start location to search from.</p>}
+        {nearbyResults && (
+          nearbyResults.length === 0 ? (
+            <p className="text-sm text-gray-400 mt-2">Nothing reachable of that kind.</p>
+          ) : (
+            <ol className="mt-2 space-y-1">
+              {nearbyResults.map((result, index) => (
+                <li key={result.unitId} className="flex items-center justify-between bg-gray-800 rounded-md px-2 py-1 text-sm text-gray-300">
+                  <span>{index + 1}. {unitLabel(result.unitId)} · ~{formatDuration(result.travelTime)}</span>
+                  <button
+                    onClick={() => onRouteToNearby(result)}
+                    className="text-indigo-300 hover:text-white font-medium"
+                  >
+                    Route here
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="routing-profile" className="block text-sm font-medium text-gray-300 mb-1">Routing Profile</label>
+        <select
+          id="routing-profile"
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value as RoutingProfileId)}
+          className="w-full bg-gray-800 border-gray-600 rounded-md shadow-sm text-white focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {routingProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400 mt-1">{ROUTING_PROFILES[profileId].description}</p>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-300 mb-2">Route Preference</h3>
+        <div className="flex space-x-4">
+          {(Object.keys(ROUTE_METRIC_LABELS) as RouteMetric[]).map(metric => (
+            <label key={metric} className="flex items-center space-x-2 text-gray-300">
               <input
                 type="radio"
-                name="filter"
-                value={f}
-                checked={filter === f}
-                onChange={() => setFilter(f)}
+                name="route-metric"
+                value={metric}
+                checked={routeMetric === metric}
+                onChange={() => setRouteMetric(metric)}
                 className="text-indigo-500 bg-gray-700 border-gray-600 focus:ring-indigo-500"
               />
-              <span>{f.replace('_', ' ').toLowerCase()}</span>
+              <span>{ROUTE_METRIC_LABELS[metric]}</span>
             </label>
           ))}
         </div>
       </div>
 
+      {graphProgress !== null && (
+        <div>
+          <p className="text-sm text-gray-400 mb-1">Building navigation graph... {Math.round(graphProgress)}%</p>
+          <div className="w-full bg-gray-700 rounded-full h-2">
+            <div className="bg-indigo-500 h-2 rounded-full transition-all duration-150" style={{ width: `${graphProgress}%` }}></div>
+          </div>
+        </div>
+      )}
+
       <div className="flex space-x-2">
         <button
           onClick={onFindPath}
-          disabled={!startUnit || !endUnit || isGeneratingInstructions}
+          disabled={!startUnit || !endUnit || graphProgress !== null || routingProgress !== null}
           className="flex-1 bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
         >
-          {isGeneratingInstructions ? 'Generating...' : 'Find Path'}
+          {routingProgress !== null ? `Routing... ${Math.round(routingProgress)}%` : 'Find Path'}
         </button>
         <button
           onClick={onClearPath}
@@ -145,6 +360,31 @@ const Controls: React.FC<ControlsProps> = ({
         </button>
       </div>
 
+      {alternatives.length > 1 && (
+        <div className="p-4 bg-gray-800 rounded-lg">
+          <h3 className="font-bold text-lg text-gray-200 mb-2">Routes</h3>
+          <div className={`grid gap-2 ${alternatives.length === 2 ? 'grid-cols-2' : 'grid-cols-3'}`}>
+            {alternatives.map((summary, index) => (
+              <button
+                key={index}
+                onClick={() => onSelectAlternative(index)}
+                onMouseEnter={() => onHighlightAlternative(index)}
+                onMouseLeave={() => onHighlightAlternative(null)}
+                onFocus={() => onHighlightAlternative(index)}
+                onBlur={() => onHighlightAlternative(null)}
+                className={`p-2 rounded-md text-left text-xs transition-colors border ${index === selectedAlternative ? 'bg-indigo-600/30 border-indigo-500' : 'bg-gray-700/50 border-transparent hover:border-purple-400'}`}
+                aria-pressed={index === selectedAlternative}
+              >
+                <p className="font-semibold text-sm text-gray-200">{index === 0 ? 'Best' : `Route ${index + 1}`}</p>
+                <p className="text-gray-300">~{formatDuration(summary.travelTime)} · {Math.round(summary.distance)}m</p>
+                <p className="text-gray-400">{summary.floorsChanged} floor{summary.floorsChanged === 1 ? '' : 's'} changed</p>
+                <p className="text-gray-400">{describeConnectors(summary)}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {(path || isGeneratingInstructions) && (
         <div className="p-4 bg-gray-800 rounded-lg">
           <div className="flex justify-between items-center mb-2">
@@ -159,11 +399,58 @@ const Controls: React.FC<ControlsProps> = ({
             </h3>
             {pathDistance !== null && (
               <span className="text-sm text-gray-400 font-medium">
+                {pathDuration !== null && <>~{formatDuration(pathDuration)} · </>}
                 {Math.round(pathDistance)}m
               </span>
             )}
           </div>
-          {pathInstructions && (
+          {detourNotes.length > 0 && (
+            <div className="mb-2 p-2 bg-yellow-900/40 border border-yellow-700 rounded-md text-sm text-yellow-200">
+              <p className="font-medium">
+                Detour{detourExtraTime !== null && detourExtraTime >= 1 && <> (+{formatDuration(detourExtraTime)})</>} because of closures:
+              </p>
+              <ul className="list-disc list-inside">
+                {detourNotes.map(note => <li key={note}>{note}</li>)}
+              </ul>
+            </div>
+          )}
+          {navigationSteps.length > 0 ? (
+            <>
+              <ol className="space-y-1 text-sm">
+                {navigationSteps.map((step, i) => {
+                  const isSelected = i === selectedStepIndex;
+                  return (
+                    <li key={i}>
+                      <button
+                        onClick={() => onSelectStep(isSelected ? null : i)}
+                        className={`w-full text-left rounded px-2 py-1 border transition-colors ${isSelected ? 'border-indigo-400' : 'border-transparent hover:border-gray-600'} ${i === playbackStepIndex ? 'bg-indigo-600/40 text-white' : 'text-gray-300'}`}
+                        aria-pressed={isSelected}
+                        aria-current={i === playbackStepIndex ? 'step' : undefined}
+                      >
+                        <span className="text-gray-500 mr-1">{i + 1}.</span>
+                        {step.text}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+              {instructionSource === 'rules' && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Directions worked out from the map. Run <code>ollama serve</code> with <code>llama3.2</code> pulled for AI-written ones.
+                </p>
+              )}
+            </>
+          ) : draftSteps.length > 0 ? (
+            <ol className="space-y-1 text-sm text-gray-400" aria-live="polite" aria-busy="true">
+              {draftSteps.map((text, i) => (
+                <li key={i} className="px-2 py-1">
+                  <span className="text-gray-500 mr-1">{i + 1}.</span>
+                  {text}
+                  {i === draftSteps.length - 1 && <span className="animate-pulse">▍</span>}
+                </li>
+              ))}
+            </ol>
+          ) : pathInstructions && (
             <p className="text-gray-300 whitespace-pre-wrap text-sm">{pathInstructions}</p>
           )}
         </div>
@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import type { CampusData, EvacuationPlan } from '../types';
+import { UnitType } from '../types';
+import { summariseEvacuationPlan } from '../services/evacuation';
+
+interface EvacuationPanelProps {
+  data: CampusData;
+  plan: EvacuationPlan | null; // null while it is being computed
+  blockedExitIds: string[];
+  // Only given to users allowed to mark exits as blocked
+  onSetExitBlocked?: (unitId: string, blocked: boolean) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Opens the per-floor evacuation summary in a new window and prints it
+const printSummary = (plan: EvacuationPlan, data: CampusData) => {
+  const floors = summariseEvacuationPlan(plan, data);
+  const blockedNames = data.units.filter(u => plan.blockedExitIds.includes(u.id)).map(u => u.name);
+  const tables = floors.map(floor => `
+    <h2>${escapeHtml(floor.levelName)}</h2>
+    <table>
+      <thead><tr><th>Space</th><th>Nearest exit</th><th>Via</th><th>Distance</th></tr></thead>
+      <tbody>
+        ${floor.rows.map(row => `
+          <tr${row.distance === null ? ' class="none"' : ''}>
+            <td>${escapeHtml(row.unitName)}</td>
+            <td>${escapeHtml(row.exitName)}</td>
+            <td>${escapeHtml(row.via)}</td>
+            <td>${row.distance === null ? '&ndash;' : `${Math.round(row.distance)} m`}</td>
+          </tr>`).join('')}
+      </tbody>
+    </table>`).join('');
+
+  const summaryWindow = window.open('', '_blank');
+  if (!summaryWindow) {
+    alert('Could not open the evacuation summary. Please allow pop-ups for this site.');
+    return;
+  }
+  summaryWindow.document.write(`<!DOCTYPE html>
+    <html><head><title>Evacuation summary</title>
+    <style>
+      body { font-family: sans-serif; margin: 2em; }
+      h2 { page-break-before: always; }
+      h2:first-of-type { page-break-before: avoid; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; }
+      tr.none td { color: #b91c1c; font-weight: bold; }
+    </style></head>
+    <body>
+      <h1>Evacuation summary</h1>
+      <p>Elevators must not be used. ${blockedNames.length > 0 ? `Blocked exits: ${escapeHtml(blockedNames.join(', '))}.` : 'All exits open.'}</p>
+      ${tables}
+    </body></html>`);
+  summaryWindow.document.close();
+  summaryWindow.print();
+};
+
+/** Exit list and printable summary shown over the map while evacuation mode is on. */
+const EvacuationPanel: React.FC<EvacuationPanelProps> = ({ data, plan, blockedExitIds, onSetExitBlocked }) => {
+  const exits = useMemo(() => data.units.filter(u => u.type === UnitType.ENTRANCE), [data.units]);
+  const levelNames = useMemo(() => new Map(data.levels.map(l => [l.id, l.name])), [data.levels]);
+  const unreachableCount = plan ? data.units.filter(u => u.type !== UnitType.ELEVATOR && !plan.routes[u.id]).length : 0;
+
+  return (
+    <div className="absolute top-16 right-4 z-10 w-72 bg-gray-800/90 backdrop-blur-sm rounded-lg shadow-lg p-4 text-sm text-gray-200">
+      <h3 className="text-lg font-bold text-red-400 mb-1">Evacuation</h3>
+      <p className="text-xs text-gray-400 mb-3">Routes lead to the nearest open exit and never use elevators.</p>
+
+      {exits.length === 0 ? (
+        <p className="text-yellow-400">This dataset has no exits.</p>
+      ) : (
+        <ul className="space-y-1 mb-3 max-h-48 overflow-y-auto">
+          {exits.map(exit => {
+            const blocked = blockedExitIds.includes(exit.id);
+            return (
+              <li key={exit.id} className="flex items-center justify-between">
+                <span className={blocked ? 'line-through text-gray-500' : ''}>
+                  {exit.name} <span className="text-xs text-gray-400">({levelNames.get(exit.levelId) ?? 'Unknown level'})</span>
+                </span>
+                {onSetExitBlocked ? (
+                  <label className="flex items-center space-x-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={blocked}
+                      onChange={e => onSetExitBlocked(exit.id, e.target.checked)}
+                      className="accent-red-500"
+                    />
+                    <span>Blocked</span>
+                  </label>
+                ) : blocked && <span className="text-xs text-red-400">Blocked</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!plan ? (
+        <p className="text-gray-400">Calculating evacuation routes...</p>
+      ) : (
+        <>
+          {unreachableCount > 0 && (
+            <p className="text-red-400 mb-2">{unreachableCount} space{unreachableCount === 1 ? ' has' : 's have'} no route to an open exit.</p>
+          )}
+          <button
+            onClick={() => printSummary(plan, data)}
+            className="w-full py-2 bg-red-600 hover:bg-red-500 rounded-md font-medium transition-colors"
+          >
+            Print summary
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EvacuationPanel;
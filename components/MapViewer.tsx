@@ -2,25 +2,126 @@
 // Declare Leaflet's global 'L' object to satisfy TypeScript.
 declare const L: any;
 
-import React, { useRef, useEffect, useMemo } from 'react';
-import type { CampusData, Point, Waypoint } from '../types';
-import { UNIT_TYPE_COLORS_3D } from '../constants';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import type { CampusData, Closure, EvacuationPlan, Level, NavigationStep, Point, Unit, Waypoint } from '../types';
+import { UnitType } from '../types';
+import { STEP_THROUGH_LEVEL_CHANGE_SECONDS, STEP_THROUGH_SPEED, UNIT_TYPE_COLORS_3D } from '../constants';
+import { getInteriorPoint } from '../utils/geometry';
+import { getClosedUnitIds } from '../services/closures';
+import { findContainingUnit } from '../services/routeAnchors';
+import { getLevelTransitions } from '../services/routePlayback';
+import { detectCoordinateSystem } from '../utils/coordinateSystem';
+import type { CoordinateSystem } from '../utils/coordinateSystem';
+import type { LevelTransition } from '../services/routePlayback';
 
 interface MapViewerProps {
   data: CampusData;
   waypoints: Waypoint[] | null;
   startUnitId: string | null;
   endUnitId: string | null;
+  stopUnitIds: string[]; // Intermediate stops of a multi-stop route, in visiting order
   selectedLevelId: string;
   showProject: boolean;
   mapOrigin: { lat: number; lon: number } | null;
+  evacuationPlan: EvacuationPlan | null; // Egress arrows are drawn while this is set
+  closures: Closure[]; // Closures in force, drawn hatched
+  highlightedWaypoints: Waypoint[] | null; // An alternative route being previewed
+  // Set while the user is picking a start or end: receives the clicked unit and exact point
+  onPickPoint?: (unitId: string, point: Point) => void;
+  // "Route from here" / "Route to here" in a unit's popup
+  onSelectUnit?: (unitId: string, target: 'start' | 'end') => void;
+  // Shows another floor: from the route's floor-change markers and while stepping through it
+  onSelectLevel?: (levelId: string) => void;
+  focusedStep: NavigationStep | null; // A step of the directions to highlight and zoom to
 }
 
-const MapViewer: React.FC<MapViewerProps> = ({ data, waypoints, startUnitId, endUnitId, selectedLevelId, showProject, mapOrigin }) => {
+// The runs of consecutive waypoints on one level, as Leaflet lat/lng lists
+const getLevelSegments = (waypoints: Waypoint[], levelId: string): number[][][] => {
+  const segments: number[][][] = [];
+  let current: number[][] = [];
+  for (const waypoint of waypoints) {
+    if (waypoint.levelId === levelId) {
+      current.push([waypoint.point.y, waypoint.point.x]);
+    } else {
+      if (current.length > 1) segments.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 1) segments.push(current);
+  return segments;
+};
+
+// Seconds the step-through marker takes along each leg between two waypoints
+const getStepDurations = (waypoints: Waypoint[], crs: CoordinateSystem): number[] =>
+  waypoints.slice(1).map((waypoint, i) => {
+    const previous = waypoints[i];
+    if (previous.levelId !== waypoint.levelId) return STEP_THROUGH_LEVEL_CHANGE_SECONDS;
+    return crs.distance(previous.point, waypoint.point) / STEP_THROUGH_SPEED;
+  });
+
+// Unit tooltips and popups are built as DOM, so unit names are never parsed as HTML
+const createElement = (tag: string, className: string, text?: string): HTMLElement => {
+  const element = document.createElement(tag);
+  element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+};
+
+// Name, type and level of a unit, and why it is closed if it is
+const createUnitTooltip = (unit: Unit, levelName: string, closedReason?: string): HTMLElement => {
+  const tooltip = createElement('div', '');
+  tooltip.append(
+    createElement('div', 'font-semibold', unit.name),
+    createElement('div', 'capitalize', `${unit.type.toLowerCase()} · ${levelName}`)
+  );
+  if (closedReason) tooltip.append(createElement('div', 'text-red-600', `Closed: ${closedReason}`));
+  return tooltip;
+};
+
+const createUnitPopup = (unit: Unit, onSelect: (target: 'start' | 'end') => void): HTMLElement => {
+  const popup = createElement('div', 'space-y-2');
+  popup.append(createElement('div', 'font-semibold text-sm', unit.name));
+  const buttons = createElement('div', 'flex space-x-2');
+  (['start', 'end'] as const).forEach(target => {
+    const button = createElement('button', 'px-2 py-1 rounded bg-indigo-600 text-white text-xs hover:bg-indigo-700', target === 'start' ? 'Route from here' : 'Route to here');
+    button.addEventListener('click', () => onSelect(target));
+    buttons.append(button);
+  });
+  popup.append(buttons);
+  return popup;
+};
+
+// Marker text where the route leaves the shown floor ("Go up to Level 3 by stairs") or arrives on it
+const describeTransition = (transition: LevelTransition, levels: Level[], units: Unit[], isArrival: boolean): string => {
+  const from = levels.find(l => l.id === transition.fromLevelId);
+  const to = levels.find(l => l.id === transition.toLevelId);
+  if (isArrival) return `Arrived from ${from?.name ?? 'another level'}`;
+  const direction = from && to && to.zIndex < from.zIndex ? 'down' : 'up';
+  const connector = units.find(u => u.id === transition.unitId)?.type;
+  const by = connector === UnitType.ELEVATOR ? ' by elevator' : connector === UnitType.STAIRS ? ' by stairs' : '';
+  return `Go ${direction} to ${to?.name ?? 'another level'}${by}`;
+};
+
+const MapViewer: React.FC<MapViewerProps> = ({ data, waypoints, startUnitId, endUnitId, stopUnitIds, selectedLevelId, showProject, mapOrigin, evacuationPlan, closures, highlightedWaypoints, onPickPoint, onSelectUnit, onSelectLevel, focusedStep }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   // Use a ref (not state) to avoid triggering re-renders and double-init issues
   const mapInstanceRef = useRef<any>(null);
   const drawnObjectsRef = useRef<any>(null);
+  // Read by the unit layers' event handlers, so changing them does not redraw the map
+  const onPickPointRef = useRef(onPickPoint);
+  onPickPointRef.current = onPickPoint;
+  const onSelectUnitRef = useRef(onSelectUnit);
+  onSelectUnitRef.current = onSelectUnit;
+  const onSelectLevelRef = useRef(onSelectLevel);
+  onSelectLevelRef.current = onSelectLevel;
+  const selectedLevelIdRef = useRef(selectedLevelId);
+  selectedLevelIdRef.current = selectedLevelId;
+  // Step-through: a marker walks the route and the map follows it from floor to floor
+  const [stepThrough, setStepThrough] = useState<'off' | 'playing' | 'paused'>('off');
+  const stepTimeRef = useRef(0); // Seconds into the route
+  const stepLevelRef = useRef<string | null>(null); // Floor the marker was last shown on
+
+  const crs = useMemo(() => detectCoordinateSystem(data.units.flatMap(u => u.polygon)), [data.units]);
 
   const dataBounds = useMemo(() => {
     const allPoints = [
@@ -102,6 +203,24 @@ const MapViewer: React.FC<MapViewerProps> = ({ data, waypoints, startUnitId, end
     }
   }, [dataBounds]);
 
+  // While picking, a click inside a unit of the shown level picks that exact point
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !onPickPoint) return;
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    const handleClick = (event: any) => {
+      const point = { x: event.latlng.lng, y: event.latlng.lat };
+      const unit = findContainingUnit(data.units, selectedLevelId, point);
+      if (unit) onPickPoint(unit.id, point);
+    };
+    map.on('click', handleClick);
+    return () => {
+      map.off('click', handleClick);
+      container.style.cursor = '';
+    };
+  }, [onPickPoint, data.units, selectedLevelId]);
+
   // Draw and update map objects (units, path, markers)
   useEffect(() => {
     if (!mapInstanceRef.current || !drawnObjectsRef.current) return;
@@ -111,57 +230,209 @@ const MapViewer: React.FC<MapViewerProps> = ({ data, waypoints, startUnitId, end
 
     if (!showProject) return;
 
-    // Draw visible units for the selected level
+    // Draw visible units for the selected level: highlighted on hover or keyboard focus,
+    // with a tooltip, and a popup to route from or to them on click or Enter
+    const map = mapInstanceRef.current;
     const visibleUnits = data.units.filter(u => u.levelId === selectedLevelId);
+    const levelName = data.levels.find(l => l.id === selectedLevelId)?.name ?? 'Unknown level';
+    const closedReasons = new Map<string, string>();
+    closures.forEach(closure => getClosedUnitIds(closure, data.units).forEach(id => closedReasons.set(id, closure.reason)));
     visibleUnits.forEach(unit => {
       const isStart = unit.id === startUnitId;
       const isEnd = unit.id === endUnitId;
+      const isStop = stopUnitIds.includes(unit.id);
 
       // Fallback to neutral grey for any unit type not in the color map
-      const fillColorNumber = isStart || isEnd ? 0xFFFF00 : (UNIT_TYPE_COLORS_3D[unit.type] ?? 0x888888);
+      const fillColorNumber = isStart || isEnd ? 0xFFFF00 : isStop ? 0xF59E0B : (UNIT_TYPE_COLORS_3D[unit.type] ?? 0x888888);
       const fillColor = `#${fillColorNumber.toString(16).padStart(6, '0')}`;
+      const style = {
+        color: '#FFFFFF',
+        weight: 1,
+        opacity: 0.6,
+        fillColor: fillColor,
+        fillOpacity: isStart || isEnd || isStop ? 0.8 : 0.5,
+      };
+
+      const layer = L.polygon(unit.polygon.map(p => [p.y, p.x]), style)
+        .addTo(drawnObjects)
+        .bindTooltip(createUnitTooltip(unit, levelName, closedReasons.get(unit.id)), { sticky: true });
+
+      const highlight = () => layer.setStyle({ color: '#FACC15', weight: 3, opacity: 1 });
+      const unhighlight = () => layer.setStyle(style);
+      const openPopup = (latLng: any) => {
+        L.popup().setLatLng(latLng).setContent(createUnitPopup(unit, target => {
+          map.closePopup();
+          onSelectUnitRef.current?.(unit.id, target);
+        })).openOn(map);
+      };
+      layer.on('mouseover', highlight);
+      layer.on('mouseout', unhighlight);
+      layer.on('click', (event: any) => {
+        if (!onPickPointRef.current && onSelectUnitRef.current) openPopup(event.latlng);
+      });
 
-      L.polygon(
-        unit.polygon.map(p => [p.y, p.x]),
-        {
-          color: '#FFFFFF',
-          weight: 1,
-          opacity: 0.6,
-          fillColor: fillColor,
-          fillOpacity: isStart || isEnd ? 0.8 : 0.5,
-        }
-      ).addTo(drawnObjects);
+      // SVG paths are not focusable by default; make each unit a keyboard stop
+      const element = layer.getElement();
+      if (!element) return;
+      element.setAttribute('tabindex', '0');
+      element.setAttribute('role', 'button');
+      element.setAttribute('aria-label', `${unit.name}, ${unit.type.toLowerCase()}, ${levelName}`);
+      element.addEventListener('focus', () => {
+        highlight();
+        layer.openTooltip(layer.getCenter());
+      });
+      element.addEventListener('blur', () => {
+        unhighlight();
+        layer.closeTooltip();
+      });
+      element.addEventListener('keydown', (event: KeyboardEvent) => {
+        if (event.key !== 'Enter' && event.key !== ' ') return;
+        event.preventDefault();
+        const point = getInteriorPoint(unit.polygon);
+        if (onPickPointRef.current) onPickPointRef.current(unit.id, point);
+        else if (onSelectUnitRef.current) openPopup([point.y, point.x]);
+      });
     });
 
+    // Draw closures: closed spaces hatched (pattern defined below in the JSX), closed doors in red
+    closures.forEach(closure => {
+      if (closure.targetType === 'door') {
+        const door = data.details.find(d => d.id === closure.targetId);
+        if (!door || door.levelId !== selectedLevelId) return;
+        L.polyline(door.line.map(p => [p.y, p.x]), { color: '#DC2626', weight: 6, dashArray: '4 4' })
+          .addTo(drawnObjects).bindTooltip(createElement('div', '', `Closed: ${closure.reason}`));
+        return;
+      }
+      getClosedUnitIds(closure, data.units).forEach(unitId => {
+        const unit = visibleUnits.find(u => u.id === unitId);
+        if (!unit) return;
+        L.polygon(unit.polygon.map(p => [p.y, p.x]), {
+          color: '#DC2626',
+          weight: 2,
+          fillColor: 'url(#closure-hatch)',
+          fillOpacity: 1,
+          interactive: false, // The unit beneath shows the reason in its tooltip
+        }).addTo(drawnObjects);
+      });
+    });
+
+    // Draw egress arrows: each unit points towards the first step of its way out
+    if (evacuationPlan) {
+      const levelNames = new Map(data.levels.map(l => [l.id, l.name]));
+      visibleUnits.forEach(unit => {
+        if (unit.type === UnitType.ELEVATOR) return; // Never part of a way out
+        const route = evacuationPlan.routes[unit.id];
+        const origin = getInteriorPoint(unit.polygon);
+        const originLatLng = [origin.y, origin.x];
+
+        if (!route) {
+          L.circleMarker(originLatLng, { radius: 5, color: 'white', weight: 1, fillColor: '#DC2626', fillOpacity: 1, pane: 'pathPane' })
+            .addTo(drawnObjects).bindTooltip(createElement('div', '', `${unit.name}: no route to an open exit`));
+          return;
+        }
+        const isBlockedExit = evacuationPlan.blockedExitIds.includes(unit.id);
+        if (!route.next || isBlockedExit) {
+          L.marker(originLatLng, {
+            pane: 'pathPane',
+            icon: L.divIcon({ className: '', html: `<div class="px-1 rounded text-xs font-bold text-white ${isBlockedExit ? 'bg-red-600' : 'bg-green-600'}">${isBlockedExit ? 'BLOCKED' : 'EXIT'}</div>`, iconAnchor: [16, 8] }),
+          }).addTo(drawnObjects);
+          if (!route.next) return;
+        }
+
+        const label = `${Math.round(route.distance)} m`;
+        if (route.next.levelId !== unit.levelId) {
+          // Stairs lead off this floor; say where to instead of drawing an arrow
+          L.marker(originLatLng, {
+            pane: 'pathPane',
+            icon: L.divIcon({
+              className: '',
+              html: createElement('div', 'px-1 rounded text-xs text-white bg-green-700 whitespace-nowrap', `${unit.type === UnitType.STAIRS ? 'Stairs' : 'Go'} to ${levelNames.get(route.next.levelId) ?? 'next level'} · ${label}`),
+              iconAnchor: [0, 8],
+            }),
+          }).addTo(drawnObjects);
+          return;
+        }
+
+        const target = route.next.point;
+        L.polyline([originLatLng, [target.y, target.x]], { color: '#16A34A', weight: 3, opacity: 0.9, pane: 'pathPane' }).addTo(drawnObjects);
+        // Rotate an up-pointing arrowhead to the direction of travel (clockwise from north)
+        const angle = Math.atan2(target.x - origin.x, target.y - origin.y) * 180 / Math.PI;
+        L.marker([target.y, target.x], {
+          pane: 'pathPane',
+          icon: L.divIcon({ className: '', html: `<div style="transform: rotate(${angle}deg); color: #16A34A; font-size: 16px; line-height: 16px; text-align: center;">&#9650;</div>`, iconSize: [16, 16], iconAnchor: [8, 8] }),
+        }).addTo(drawnObjects);
+        L.marker(originLatLng, {
+          pane: 'pathPane',
+          icon: L.divIcon({ className: '', html: `<div class="px-1 rounded text-xs text-white bg-gray-900/80 whitespace-nowrap">${label}</div>`, iconAnchor: [0, 16] }),
+        }).addTo(drawnObjects);
+      });
+    }
+
+    // Draw the previewed alternative under the path
+    if (highlightedWaypoints) {
+      getLevelSegments(highlightedWaypoints, selectedLevelId).forEach(segment => {
+        L.polyline(segment, {
+          color: '#A855F7',
+          weight: 5,
+          opacity: 0.9,
+          dashArray: '8 6',
+          pane: 'pathPane'
+        }).addTo(drawnObjects);
+      });
+    }
+
     // Draw path
     if (waypoints && waypoints.length > 0) {
       const toLatLng = (p: Point) => [p.y, p.x];
 
-      const pathSegments: any[][] = [];
-      let currentSegment: any[] = [];
-
-      for (const waypoint of waypoints) {
-        const waypointLatLng = toLatLng(waypoint.point);
-        if (waypoint.levelId === selectedLevelId) {
-          currentSegment.push(waypointLatLng);
-        } else {
-          if (currentSegment.length > 1) {
-            pathSegments.push(currentSegment);
-          }
-          currentSegment = [];
-        }
-      }
-      if (currentSegment.length > 1) pathSegments.push(currentSegment);
-
-      pathSegments.forEach(segment => {
+      // A faint solid line keeps the route readable under dashes flowing in the walking direction
+      getLevelSegments(waypoints, selectedLevelId).forEach(segment => {
+        L.polyline(segment, {
+          color: '#3388ff',
+          weight: 7,
+          opacity: 0.3,
+          pane: 'pathPane'
+        }).addTo(drawnObjects);
         L.polyline(segment, {
           color: '#3388ff',
           weight: 5,
-          opacity: 0.75,
+          opacity: 0.9,
+          dashArray: '12 12',
+          className: 'route-path-flow',
           pane: 'pathPane'
         }).addTo(drawnObjects);
       });
 
+      // Where the route leaves or reaches this floor, say where it goes; clicking shows that floor
+      getLevelTransitions(waypoints).forEach(transition => {
+        [false, true].forEach(isArrival => {
+          const levelId = isArrival ? transition.toLevelId : transition.fromLevelId;
+          if (levelId !== selectedLevelId) return;
+          const point = waypoints[isArrival ? transition.toIndex : transition.fromIndex].point;
+          const text = describeTransition(transition, data.levels, data.units, isArrival);
+          const icon = createElement('div', `px-2 py-0.5 rounded-full text-xs font-medium text-white whitespace-nowrap shadow ${isArrival ? 'bg-gray-700' : 'bg-indigo-600'}`, text);
+          L.marker(toLatLng(point), {
+            pane: 'pathPane',
+            icon: L.divIcon({ className: '', html: icon, iconAnchor: [-8, 10] }),
+            title: `${text}: show that floor`,
+            keyboard: true,
+          }).addTo(drawnObjects).on('click', () => {
+            onSelectLevelRef.current?.(isArrival ? transition.fromLevelId : transition.toLevelId);
+          });
+        });
+      });
+
+      // The step chosen in the directions, over the route
+      if (focusedStep) {
+        const stepWaypoints = waypoints.slice(focusedStep.fromIndex, focusedStep.toIndex + 1);
+        getLevelSegments(stepWaypoints, selectedLevelId).forEach(segment => {
+          L.polyline(segment, { color: '#FACC15', weight: 8, opacity: 0.9, pane: 'pathPane' }).addTo(drawnObjects);
+        });
+        if (stepWaypoints.length === 1 && stepWaypoints[0].levelId === selectedLevelId) {
+          L.circleMarker(toLatLng(stepWaypoints[0].point), { radius: 12, color: '#FACC15', weight: 3, fill: false, pane: 'pathPane' }).addTo(drawnObjects);
+        }
+      }
+
       const startUnit = data.units.find(u => u.id === startUnitId);
       const endUnit = data.units.find(u => u.id === endUnitId);
 
@@ -177,14 +448,148 @@ const MapViewer: React.FC<MapViewerProps> = ({ data, waypoints, startUnitId, end
           pane: 'pathPane'
         }).addTo(drawnObjects).bindTooltip('End');
       }
+      stopUnitIds.forEach((stopId, index) => {
+        const stopUnit = data.units.find(u => u.id === stopId);
+        if (!stopUnit || stopUnit.levelId !== selectedLevelId) return;
+        L.circleMarker(toLatLng(getInteriorPoint(stopUnit.polygon)), {
+          radius: 7, color: 'white', weight: 2, fillColor: '#F59E0B', fillOpacity: 1,
+          pane: 'pathPane'
+        }).addTo(drawnObjects).bindTooltip(createElement('div', '', `Stop ${index + 1}: ${stopUnit.name}`));
+      });
+    }
+  }, [data, waypoints, startUnitId, endUnitId, stopUnitIds, selectedLevelId, showProject, evacuationPlan, closures, highlightedWaypoints, focusedStep]);
+
+  // Zoom to the step chosen in the directions, on its floor
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !focusedStep || !waypoints) return;
+    const latLngs = waypoints
+      .slice(focusedStep.fromIndex, focusedStep.toIndex + 1)
+      .filter(waypoint => waypoint.levelId === focusedStep.levelId)
+      .map(waypoint => [waypoint.point.y, waypoint.point.x]);
+    if (latLngs.length > 0) map.fitBounds(L.latLngBounds(latLngs), { padding: [80, 80] });
+  }, [focusedStep, waypoints]);
+
+  // A new route starts any step-through over
+  useEffect(() => {
+    setStepThrough('off');
+    stepTimeRef.current = 0;
+    stepLevelRef.current = null;
+  }, [waypoints]);
+
+  // Step-through: place the marker, play it along the route, and switch floors when it changes floor
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !waypoints || waypoints.length < 2 || stepThrough === 'off') return;
+    const durations = getStepDurations(waypoints, crs);
+    const total = durations.reduce((sum, d) => sum + d, 0);
+    const marker = L.circleMarker([waypoints[0].point.y, waypoints[0].point.x], {
+      radius: 7, color: 'white', weight: 2, fillColor: '#3388ff', fillOpacity: 1, pane: 'pathPane'
+    }).addTo(map);
+
+    const place = () => {
+      let time = stepTimeRef.current;
+      let i = 0;
+      while (i < durations.length - 1 && time > durations[i]) time -= durations[i++];
+      const from = waypoints[i];
+      const to = waypoints[i + 1];
+      const fraction = durations[i] > 0 ? Math.min(1, time / durations[i]) : 1;
+      // Floor changes jump halfway through; walks move along the leg
+      const isLevelChange = from.levelId !== to.levelId;
+      const levelId = isLevelChange && fraction >= 0.5 ? to.levelId : from.levelId;
+      const point = isLevelChange
+        ? (fraction >= 0.5 ? to.point : from.point)
+        : { x: from.point.x + (to.point.x - from.point.x) * fraction, y: from.point.y + (to.point.y - from.point.y) * fraction };
+      if (levelId !== stepLevelRef.current) {
+        stepLevelRef.current = levelId;
+        if (levelId !== selectedLevelIdRef.current) onSelectLevelRef.current?.(levelId);
+      }
+      const latLng = [point.y, point.x];
+      marker.setLatLng(latLng);
+      // Hidden while the user looks at another floor
+      const isShown = levelId === selectedLevelIdRef.current;
+      marker.setStyle({ opacity: isShown ? 1 : 0, fillOpacity: isShown ? 1 : 0 });
+      if (isShown && stepThrough === 'playing' && !map.getBounds().contains(latLng)) map.panTo(latLng);
+    };
+
+    place();
+    if (stepThrough !== 'playing') return () => { marker.remove(); };
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      stepTimeRef.current = Math.min(total, stepTimeRef.current + (now - last) / 1000);
+      last = now;
+      place();
+      if (stepTimeRef.current >= total) setStepThrough('paused');
+      else frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameId);
+      marker.remove();
+    };
+  }, [stepThrough, waypoints, selectedLevelId, crs]);
+
+  const toggleStepPlaying = () => {
+    if (stepThrough === 'playing') {
+      setStepThrough('paused');
+      return;
     }
-  }, [data, waypoints, startUnitId, endUnitId, selectedLevelId, showProject]);
+    // Playing again from the end starts over
+    if (waypoints && stepTimeRef.current >= getStepDurations(waypoints, crs).reduce((sum, d) => sum + d, 0)) {
+      stepTimeRef.current = 0;
+      stepLevelRef.current = null;
+    }
+    setStepThrough('playing');
+  };
+
+  const stopStepThrough = () => {
+    setStepThrough('off');
+    stepTimeRef.current = 0;
+    stepLevelRef.current = null;
+  };
 
   const buttonClasses = "bg-gray-800/80 backdrop-blur-sm p-2 rounded-full text-white hover:bg-indigo-600 transition-colors w-10 h-10 flex items-center justify-center font-bold text-lg";
 
   return (
     <div style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0, overflow: 'hidden' }} className="bg-gray-800/50 rounded-l-2xl">
       <div ref={mapRef} className="w-full h-full" />
+      {/* Dashes of the route flow towards its end */}
+      <style>{`
+        .route-path-flow { animation: route-path-flow 1s linear infinite; }
+        @keyframes route-path-flow { to { stroke-dashoffset: -24; } }
+        @media (prefers-reduced-motion: reduce) { .route-path-flow { animation: none; } }
+      `}</style>
+      {/* Fill pattern for closed units; Leaflet's SVG paths refer to it by id */}
+      <svg width="0" height="0" style={{ position: 'absolute' }} aria-hidden="true">
+        <defs>
+          <pattern id="closure-hatch" patternUnits="userSpaceOnUse" width="8" height="8" patternTransform="rotate(45)">
+            <rect width="8" height="8" fill="#DC2626" fillOpacity="0.2" />
+            <line x1="0" y1="0" x2="0" y2="8" stroke="#DC2626" strokeWidth="3" />
+          </pattern>
+        </defs>
+      </svg>
+      {showProject && waypoints && waypoints.length > 1 && (
+        <div className="absolute bottom-4 left-4 z-10 flex items-center space-x-2 bg-gray-800/80 backdrop-blur-sm rounded-full shadow-lg px-3 py-2 text-sm text-white">
+          {stepThrough === 'off' ? (
+            <button onClick={() => setStepThrough('playing')} className="px-2 hover:text-indigo-300">
+              Step through route
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={toggleStepPlaying}
+                className="w-8 h-8 rounded-full bg-indigo-600 hover:bg-indigo-700 flex items-center justify-center"
+                aria-label={stepThrough === 'playing' ? 'Pause step-through' : 'Play step-through'}
+              >
+                {stepThrough === 'playing' ? '❚❚' : '▶'}
+              </button>
+              <span className="text-gray-300">Following the route</span>
+              <button onClick={stopStepThrough} className="text-gray-400 hover:text-white" aria-label="Stop stepping through">&times;</button>
+            </>
+          )}
+        </div>
+      )}
       <div className="absolute bottom-4 right-4 flex flex-col space-y-2 z-10">
         <button onClick={() => mapInstanceRef.current?.zoomIn()} className={buttonClasses} aria-label="Zoom in">+</button>
         <button onClick={() => mapInstanceRef.current?.zoomOut()} className={buttonClasses} aria-label="Zoom out">-</button>
@@ -3,18 +3,24 @@
 import React, { useRef, useEffect, useMemo, useCallback, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { CSS2DObject, CSS2DRenderer } from 'three/addons/renderers/CSS2DRenderer.js';
 // FIX: Add Waypoint to type imports, as it's now used in props.
-import type { CampusData, Waypoint } from '../types';
+import type { CampusData, Closure, Detail, NavigationStep, Point, Waypoint } from '../types';
 import { DetailType } from '../types';
 import { 
     UNIT_TYPE_COLORS_3D, 
     UNIT_HEIGHT, 
     LEVEL_SEPARATION,
+    MAX_EXPLODED_LEVEL_SEPARATION,
     DETAIL_TYPE_COLORS_3D,
     WALL_THICKNESS,
     DOOR_HEIGHT_REDUCTION,
-    PATH_ANIMATION_SPEED
+    PATH_ANIMATION_SPEED,
+    UNIT_LABEL_MAX_DISTANCE
 } from '../constants';
+import { getInteriorPoint } from '../utils/geometry';
+import { getClosedUnitIds } from '../services/closures';
+import type { PlaybackStop } from '../services/routePlayback';
 
 // --- Type Declaration for External Library ---
 declare const proj4: any;
@@ -26,11 +32,139 @@ interface MapViewerProps {
   waypoints: Waypoint[] | null;
   startUnitId: string | null;
   endUnitId: string | null;
+  stopUnitIds: string[]; // Intermediate stops of a multi-stop route, in visiting order
   basemapType: 'satellite' | 'streetmap';
   showProject: boolean;
   mapOrigin: { lat: number; lon: number } | null;
+  closures: Closure[]; // Closures in force, drawn hatched
+  highlightedWaypoints: Waypoint[] | null; // An alternative route being previewed
+  // Set while the user is picking a start or end: receives the clicked unit and exact point
+  onPickPoint?: (unitId: string, point: Point) => void;
+  // "Route from here" / "Route to here" in the menu of a clicked unit
+  onSelectUnit?: (unitId: string, target: 'start' | 'end') => void;
+  playbackStops: PlaybackStop[]; // Where route playback pauses, in route order
+  onPlaybackStep: (stepIndex: number | null) => void; // The step of the directions last reached
+  focusedStep: NavigationStep | null; // A step of the directions to highlight and zoom to
 }
 
+type CameraMode = 'orbit' | 'chase' | 'first-person';
+
+const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+    orbit: 'Free camera',
+    chase: 'Chase camera',
+    'first-person': 'First person',
+};
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+// Follow cameras: metres behind and above the navigator, and the share of the way to their
+// target they move each frame, which smooths turns and the climbs at stairs and elevators
+const CHASE_DISTANCE = 15;
+const CHASE_HEIGHT = 8;
+const EYE_HEIGHT = 0.2; // Above the route line, which runs at half a storey
+const CAMERA_EASING = 0.08;
+
+// Opacity factor for the floors other than the focused one
+const GHOST_OPACITY = 0.15;
+
+/**
+ * Height of a point of the model, which is built with floors LEVEL_SEPARATION apart, once
+ * they are spread `separation` apart: everything within a floor moves with it, and whatever
+ * lies between floors (e.g. a route up the stairs) is stretched to span the new gap.
+ */
+const explodeY = (y: number, separation: number): number => {
+    const storey = UNIT_HEIGHT + LEVEL_SEPARATION;
+    const index = Math.floor(y / storey);
+    const offset = y - index * storey;
+    const floorY = index * (UNIT_HEIGHT + separation);
+    return offset <= UNIT_HEIGHT
+        ? floorY + offset
+        : floorY + UNIT_HEIGHT + (offset - UNIT_HEIGHT) * separation / LEVEL_SEPARATION;
+};
+
+// The parts of the static model that later effects update in place
+interface StaticModel {
+    levelGroups: Map<string, THREE.Group>;
+    unitMeshes: Map<string, THREE.Mesh>;
+    detailMeshes: THREE.InstancedMesh[]; // userData: detailIds per instance, detailType
+    getMaterial: (key: string, create: () => THREE.Material) => THREE.Material; // Shared until the model is rebuilt
+}
+
+interface LevelDisplay {
+    hiddenLevelIds: Set<string>;
+    focusedLevelId: string | null; // Other floors are ghosted while one is focused
+}
+
+/**
+ * Applies the floor separation, visibility and focus to a group's objects. Each object's
+ * height as built is kept in its userData the first time; objects with `spansLevels` set
+ * have their vertices moved instead, and ones with `levelId` are hidden or ghosted whole.
+ */
+const layoutGroup = (group: THREE.Group, separation: number, display: LevelDisplay) => {
+    group.children.forEach(object => {
+        const info = object.userData;
+        if (info.skipLayout) return;
+        if (info.spansLevels && (object instanceof THREE.Mesh || object instanceof THREE.Line)) {
+            const position = object.geometry.getAttribute('position') as THREE.BufferAttribute;
+            if (!info.baseHeights) info.baseHeights = Float32Array.from({ length: position.count }, (_, i) => position.getY(i));
+            for (let i = 0; i < position.count; i++) position.setY(i, explodeY(info.baseHeights[i], separation));
+            position.needsUpdate = true;
+            object.geometry.computeBoundingSphere();
+        } else {
+            if (info.baseY === undefined) info.baseY = object.position.y;
+            object.position.y = explodeY(info.baseY, separation);
+        }
+
+        if (!info.levelId) return;
+        object.visible = !display.hiddenLevelIds.has(info.levelId);
+        const ghosted = display.focusedLevelId !== null && info.levelId !== display.focusedLevelId;
+        object.traverse(child => {
+            if (child instanceof THREE.Mesh) setGhosted(child.material as THREE.Material, ghosted);
+        });
+    });
+};
+
+// Materials are shared by a floor's objects, so each keeps its own look as built in its userData
+const setGhosted = (material: THREE.Material, ghosted: boolean) => {
+    const base = material.userData;
+    if (base.opacity === undefined) {
+        base.opacity = material.opacity;
+        base.transparent = material.transparent;
+        base.depthWrite = material.depthWrite;
+    }
+    const transparent = ghosted || base.transparent;
+    if (material.transparent !== transparent) material.needsUpdate = true;
+    material.transparent = transparent;
+    material.depthWrite = !ghosted && base.depthWrite; // Ghosted floors must not hide the focused one
+    material.opacity = ghosted ? base.opacity * GHOST_OPACITY : base.opacity;
+};
+
+// Whether a level's units can be hovered, picked and labelled
+const isLevelInteractive = (levelId: string, display: LevelDisplay) =>
+    !display.hiddenLevelIds.has(levelId) && (display.focusedLevelId === null || display.focusedLevelId === levelId);
+
+// Pointer movement (px) between press and release up to which it counts as a click, not a camera drag
+const CLICK_TOLERANCE_PX = 5;
+
+// Red diagonal stripes for closed units; shape UVs are in metres, so it repeats every 2 m
+const createHatchTexture = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 32;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'rgba(220, 38, 38, 0.2)';
+    ctx.fillRect(0, 0, 32, 32);
+    ctx.strokeStyle = 'rgba(220, 38, 38, 0.9)';
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    // The middle diagonal plus the corners it wraps around to, so tiles join seamlessly
+    ctx.moveTo(0, 32); ctx.lineTo(32, 0);
+    ctx.moveTo(-16, 16); ctx.lineTo(16, -16);
+    ctx.moveTo(16, 48); ctx.lineTo(48, 16);
+    ctx.stroke();
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+    texture.repeat.set(0.5, 0.5);
+    return texture;
+};
+
 // --- Custom Hooks ---
 function useDebounce<T>(value: T, delay: number): T {
     const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -46,33 +180,78 @@ function useDebounce<T>(value: T, delay: number): T {
 }
 
 // FIX: Add `waypoints` to destructured props.
-const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUnitId, endUnitId, basemapType, showProject, mapOrigin }) => {
+const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUnitId, endUnitId, stopUnitIds, basemapType, showProject, mapOrigin, closures, highlightedWaypoints, onPickPoint, onSelectUnit, playbackStops, onPlaybackStep, focusedStep }) => {
     const mountRef = useRef<HTMLDivElement>(null);
     const threeRef = useRef<{
         renderer: THREE.WebGLRenderer;
         scene: THREE.Scene;
         camera: THREE.PerspectiveCamera;
         controls: OrbitControls;
+        labelRenderer: CSS2DRenderer;
     } | null>(null);
+    // Playback of the navigator along the route; progress is the share (0-1) of the route's length
     const animationRef = useRef<{
-        startTime: number;
-        duration: number;
         curve: THREE.CatmullRomCurve3 | null;
         navigator: THREE.Object3D | null;
-        trail: THREE.Line | null;
-        isAnimating: boolean;
+        length: number;
+        progress: number;
+        reportedProgress: number; // Last progress shown on the scrubber
+        isPlaying: boolean;
+        waypointProgress: number[]; // Progress at each waypoint, where the playback stops are
+        activeStop: number; // Index of the last playback stop reached, -1 before the first
+        heading: THREE.Vector3; // Horizontal direction of travel, for the navigator and follow cameras
     }>({
-        startTime: 0,
-        duration: 0,
         curve: null,
         navigator: null,
-        trail: null,
-        isAnimating: false,
+        length: 0,
+        progress: 0,
+        reportedProgress: 0,
+        isPlaying: false,
+        waypointProgress: [],
+        activeStop: -1,
+        heading: new THREE.Vector3(0, 0, 1),
     });
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [playbackProgress, setPlaybackProgress] = useState(0);
+    const [playbackSpeed, setPlaybackSpeed] = useState(1);
+    const [cameraMode, setCameraMode] = useState<CameraMode>('orbit');
+    const playbackSpeedRef = useRef(playbackSpeed);
+    playbackSpeedRef.current = playbackSpeed;
+    const cameraModeRef = useRef(cameraMode);
+    cameraModeRef.current = cameraMode;
+    const playbackStopsRef = useRef(playbackStops);
+    playbackStopsRef.current = playbackStops;
+    const onPlaybackStepRef = useRef(onPlaybackStep);
+    onPlaybackStepRef.current = onPlaybackStep;
     
     const textureLoader = useMemo(() => new THREE.TextureLoader(), []);
+    const hatchTexture = useMemo(createHatchTexture, []);
+    useEffect(() => () => hatchTexture.dispose(), [hatchTexture]);
     const campusGroupRef = useRef<THREE.Group | null>(null);
+    const staticModelRef = useRef<StaticModel | null>(null);
+    // Kept apart from the static model so route changes and previews do not rebuild it or move the camera
+    const routeGroupRef = useRef<THREE.Group | null>(null);
+    const highlightGroupRef = useRef<THREE.Group | null>(null);
+    const stepGroupRef = useRef<THREE.Group | null>(null);
     const basemapPlaneRef = useRef<THREE.Mesh | null>(null);
+    const labelGroupRef = useRef<THREE.Group | null>(null);
+    // Read by the pointer handlers, so changing them does not rebind the listeners
+    const onPickPointRef = useRef(onPickPoint);
+    onPickPointRef.current = onPickPoint;
+    const onSelectUnitRef = useRef(onSelectUnit);
+    onSelectUnitRef.current = onSelectUnit;
+    // Floor visibility, focus and spread; read through refs by the render loop and builders
+    const [hiddenLevelIds, setHiddenLevelIds] = useState<string[]>([]);
+    const [focusedLevelId, setFocusedLevelId] = useState<string | null>(null);
+    const [levelSeparation, setLevelSeparation] = useState(LEVEL_SEPARATION);
+    const levelDisplayRef = useRef<LevelDisplay>({ hiddenLevelIds: new Set(), focusedLevelId: null });
+    levelDisplayRef.current = { hiddenLevelIds: new Set(hiddenLevelIds), focusedLevelId };
+    const targetSeparationRef = useRef(levelSeparation);
+    targetSeparationRef.current = levelSeparation;
+    // The separation currently shown, eased towards the target each frame
+    const shownSeparationRef = useRef(LEVEL_SEPARATION);
+    // The unit whose route menu is open, and where on screen it was clicked
+    const [unitMenu, setUnitMenu] = useState<{ unitId: string; x: number; y: number } | null>(null);
     const clock = useMemo(() => new THREE.Clock(), []);
 
     const [zoomLevel, setZoomLevel] = useState(12);
@@ -88,6 +267,13 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
             return (coords: number[]) => coords; // Fallback to no-op
         }
     }, []);
+    const reprojectFromMeters = useMemo(() => {
+        try {
+            return proj4('EPSG:4326', 'EPSG:3857').inverse;
+        } catch (e) {
+            return (coords: number[]) => coords;
+        }
+    }, []);
 
     const centerCamera = useCallback((camera: THREE.PerspectiveCamera, controls: OrbitControls, object: THREE.Object3D) => {
         const boundingBox = new THREE.Box3().setFromObject(object);
@@ -126,8 +312,20 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
         renderer.setSize(mountNode.clientWidth, mountNode.clientHeight);
         mountNode.appendChild(renderer.domElement);
 
+        // Unit name labels are HTML laid over the canvas; clicks go through to it
+        const labelRenderer = new CSS2DRenderer();
+        labelRenderer.setSize(mountNode.clientWidth, mountNode.clientHeight);
+        labelRenderer.domElement.style.position = 'absolute';
+        labelRenderer.domElement.style.top = '0';
+        labelRenderer.domElement.style.left = '0';
+        labelRenderer.domElement.style.pointerEvents = 'none';
+        mountNode.appendChild(labelRenderer.domElement);
+
         const controls = new OrbitControls(camera, renderer.domElement);
         controls.enableDamping = true;
+        // The unit menu is placed in screen space, so it goes stale once the camera moves
+        const closeUnitMenu = () => setUnitMenu(null);
+        controls.addEventListener('start', closeUnitMenu);
 
         const handleInteractionEnd = () => {
             if (!threeRef.current) return;
@@ -150,6 +348,22 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
         const campusGroup = new THREE.Group();
         campusGroupRef.current = campusGroup;
         scene.add(campusGroup);
+
+        const routeGroup = new THREE.Group();
+        routeGroupRef.current = routeGroup;
+        scene.add(routeGroup);
+
+        const highlightGroup = new THREE.Group();
+        highlightGroupRef.current = highlightGroup;
+        scene.add(highlightGroup);
+
+        const stepGroup = new THREE.Group();
+        stepGroupRef.current = stepGroup;
+        scene.add(stepGroup);
+
+        const labelGroup = new THREE.Group();
+        labelGroupRef.current = labelGroup;
+        scene.add(labelGroup);
         
         const planeGeo = new THREE.PlaneGeometry(1, 1);
         const planeMat = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
@@ -159,31 +373,80 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
         basemapPlaneRef.current = plane;
         scene.add(plane);
 
-        threeRef.current = { renderer, scene, camera, controls };
+        threeRef.current = { renderer, scene, camera, controls, labelRenderer };
 
+        let frameId = 0;
         const animate = () => {
-            requestAnimationFrame(animate);
+            frameId = requestAnimationFrame(animate);
+            // Long frames (e.g. in a background tab) must not jump over playback stops
+            const delta = Math.min(clock.getDelta(), 0.1);
             const anim = animationRef.current;
-            if (anim.isAnimating && anim.curve && anim.navigator) {
-                const elapsedTime = clock.getElapsedTime() - anim.startTime;
-                let progress = elapsedTime / anim.duration;
-                if (progress >= 1) {
-                    progress = 1;
-                    anim.isAnimating = false;
+            const cameraMode = cameraModeRef.current;
+            if (anim.curve && anim.navigator) {
+                const stops = playbackStopsRef.current;
+                const stopProgress = (stop: PlaybackStop) => anim.waypointProgress[stop.waypointIndex] ?? Infinity;
+                if (anim.isPlaying) {
+                    const previous = anim.progress;
+                    let next = Math.min(1, previous + delta * PATH_ANIMATION_SPEED * playbackSpeedRef.current / anim.length);
+                    // Pause at the next instruction step so it can be read
+                    const stop = stops.find(s => stopProgress(s) > previous && stopProgress(s) <= next);
+                    if (stop) next = stopProgress(stop);
+                    anim.progress = next;
+                    if (stop || next >= 1) {
+                        anim.isPlaying = false;
+                        setIsPlaying(false);
+                    }
+                }
+                if (Math.abs(anim.progress - anim.reportedProgress) > 0.002 || (anim.progress === 1 && anim.reportedProgress !== 1)) {
+                    anim.reportedProgress = anim.progress;
+                    setPlaybackProgress(anim.progress);
                 }
-                const currentPosition = anim.curve.getPointAt(progress);
-                anim.navigator.position.copy(currentPosition);
-
-                if (progress < 1) {
-                    const tangent = anim.curve.getTangentAt(progress).normalize();
-                    const lookAtPosition = new THREE.Vector3().copy(currentPosition).add(tangent);
-                    // Prevent gimbal lock by keeping up vector consistent
-                    anim.navigator.up.set(0, 1, 0);
-                    anim.navigator.lookAt(lookAtPosition);
+                let activeStop = -1;
+                stops.forEach((stop, i) => { if (stopProgress(stop) <= anim.progress) activeStop = i; });
+                if (activeStop !== anim.activeStop) {
+                    anim.activeStop = activeStop;
+                    onPlaybackStepRef.current(activeStop >= 0 ? stops[activeStop].stepIndex : null);
+                }
+
+                const position = anim.curve.getPointAt(anim.progress);
+                position.y = explodeY(position.y, shownSeparationRef.current);
+                const tangent = anim.curve.getTangentAt(anim.progress);
+                const horizontal = new THREE.Vector3(tangent.x, 0, tangent.z);
+                // On stairs and in elevators the route runs (nearly) straight up; keep facing the same way
+                if (horizontal.lengthSq() > 0.04) anim.heading.copy(horizontal.normalize());
+                anim.navigator.position.copy(position);
+                // Prevent gimbal lock by keeping up vector consistent
+                anim.navigator.up.set(0, 1, 0);
+                anim.navigator.lookAt(position.clone().add(anim.heading));
+                anim.navigator.visible = cameraMode !== 'first-person';
+
+                if (cameraMode !== 'orbit') {
+                    const eye = cameraMode === 'chase'
+                        ? position.clone().addScaledVector(anim.heading, -CHASE_DISTANCE).add(new THREE.Vector3(0, CHASE_HEIGHT, 0))
+                        : position.clone().add(new THREE.Vector3(0, EYE_HEIGHT, 0));
+                    const lookAt = cameraMode === 'chase' ? position : eye.clone().addScaledVector(anim.heading, 10);
+                    camera.position.lerp(eye, CAMERA_EASING);
+                    controls.target.lerp(lookAt, CAMERA_EASING);
+                    camera.lookAt(controls.target);
                 }
             }
-            controls.update();
+            // Ease the floors towards the separation chosen on the slider
+            const target = targetSeparationRef.current;
+            if (shownSeparationRef.current !== target) {
+                const step = (target - shownSeparationRef.current) * 0.15;
+                shownSeparationRef.current = Math.abs(step) < 0.01 ? target : shownSeparationRef.current + step;
+                [campusGroup, routeGroup, highlightGroup, stepGroup, labelGroup].forEach(group =>
+                    layoutGroup(group, shownSeparationRef.current, levelDisplayRef.current));
+            }
+            // The follow cameras steer themselves; orbiting would fight them
+            if (cameraMode === 'orbit' || !anim.curve) controls.update();
             renderer.render(scene, camera);
+            // Only label units near the camera and on the floors shown; far away the names would pile up
+            labelGroup.children.forEach(label => {
+                label.visible = isLevelInteractive(label.userData.levelId, levelDisplayRef.current) &&
+                    camera.position.distanceTo(label.position) < UNIT_LABEL_MAX_DISTANCE;
+            });
+            labelRenderer.render(scene, camera);
         };
         animate();
 
@@ -191,15 +454,21 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
             camera.aspect = mountNode.clientWidth / mountNode.clientHeight;
             camera.updateProjectionMatrix();
             renderer.setSize(mountNode.clientWidth, mountNode.clientHeight);
+            labelRenderer.setSize(mountNode.clientWidth, mountNode.clientHeight);
         };
         window.addEventListener('resize', handleResize);
 
         return () => {
+            cancelAnimationFrame(frameId);
             window.removeEventListener('resize', handleResize);
             if (mountNode.contains(renderer.domElement)) {
                 mountNode.removeChild(renderer.domElement);
             }
+            if (mountNode.contains(labelRenderer.domElement)) {
+                mountNode.removeChild(labelRenderer.domElement);
+            }
             controls.removeEventListener('end', handleInteractionEnd);
+            controls.removeEventListener('start', closeUnitMenu);
             controls.dispose();
             renderer.dispose();
         };
@@ -253,156 +522,528 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
         }
     }, [data, basemapType, mapOrigin, textureLoader, debouncedZoomLevel, reprojectToMeters]);
 
-    // Effect for drawing and updating the 3D model
+    // Effect for building the static model: one group per floor holding its unit floors and
+    // its walls, doors and windows as one instanced box mesh per detail type. Materials are
+    // shared per floor, so selection, closures and ghosting only ever swap or tweak them.
     useEffect(() => {
         const threeInstance = threeRef.current;
         const campusGroup = campusGroupRef.current;
         if (!threeInstance || !campusGroup) return;
         const { camera, controls } = threeInstance;
 
-        // Clear previous campus model
-        while(campusGroup.children.length > 0){ 
-            const object = campusGroup.children[0];
-            campusGroup.remove(object);
-            if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
-                object.geometry?.dispose();
-                const material = object.material as THREE.Material | THREE.Material[];
-                 if (Array.isArray(material)) {
-                    material.forEach(m => m.dispose());
-                } else if (material) {
-                    material.dispose();
-                }
-            }
-        }
-        animationRef.current.isAnimating = false; // Stop any previous animation
-        
         campusGroup.visible = showProject;
         if (!showProject || data.levels.length === 0 || !data.levels[0].polygon[0]) return;
 
         // Establish a reference point in meters for the whole model
         const basePoint = data.levels[0].polygon[0];
         const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        const materials = new Map<string, THREE.Material>();
+        const getMaterial = (key: string, create: () => THREE.Material) => {
+            if (!materials.has(key)) materials.set(key, create());
+            return materials.get(key)!;
+        };
+        const unitBox = new THREE.BoxGeometry(1, 1, 1);
+        const model: StaticModel = { levelGroups: new Map(), unitMeshes: new Map(), detailMeshes: [], getMaterial };
+
+        data.levels.forEach(level => {
+            const levelGroup = new THREE.Group();
+            levelGroup.position.y = level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION);
+            levelGroup.userData.levelId = level.id;
+            model.levelGroups.set(level.id, levelGroup);
+            campusGroup.add(levelGroup);
+        });
 
-        // Render unit floors
+        // Render unit floors; their materials are chosen by the selection effect below
         data.units.forEach(unit => {
-            const level = data.levels.find(l => l.id === unit.levelId);
-            const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
-            
+            const levelGroup = model.levelGroups.get(unit.levelId);
+            if (!levelGroup) return;
             const shapePoints = unit.polygon.map(p => {
                 const [mx, my] = reprojectToMeters([p.x, p.y]);
                 return new THREE.Vector2(mx - baseX, my - baseY);
             });
-            const shape = new THREE.Shape(shapePoints);
-            const geometry = new THREE.ShapeGeometry(shape);
+            const mesh = new THREE.Mesh(new THREE.ShapeGeometry(new THREE.Shape(shapePoints)));
+            mesh.rotation.x = -Math.PI / 2;
+            mesh.userData.unitId = unit.id; // For picking
+            mesh.userData.levelId = unit.levelId;
+            model.unitMeshes.set(unit.id, mesh);
+            levelGroup.add(mesh);
+        });
+
+        // Render details (walls, doors, windows) as one instanced mesh per floor and type
+        const detailsByGroup = new Map<string, Detail[]>();
+        data.details?.forEach(detail => {
+            // Openings are gaps in a wall; there is nothing solid to draw
+            if (detail.type === DetailType.OPENING || !model.levelGroups.has(detail.levelId)) return;
+            const key = `${detail.levelId}|${detail.type}`;
+            detailsByGroup.set(key, [...(detailsByGroup.get(key) || []), detail]);
+        });
+        detailsByGroup.forEach((details, key) => {
+            const [levelId, type] = key.split('|') as [string, DetailType];
+            const matrices: THREE.Matrix4[] = [];
+            const detailIds: string[] = [];
+            details.forEach(detail => {
+                const isDoor = detail.type === DetailType.DOOR;
+                const objectHeight = detail.height ?? (isDoor ? UNIT_HEIGHT - DOOR_HEIGHT_REDUCTION : UNIT_HEIGHT);
+                for (let i = 0; i < detail.line.length - 1; i++) {
+                    const [p1x, p1y] = reprojectToMeters([detail.line[i].x, detail.line[i].y]);
+                    const [p2x, p2y] = reprojectToMeters([detail.line[i+1].x, detail.line[i+1].y]);
+                    const dx = p2x - p1x;
+                    const dy = p2y - p1y;
+                    const length = Math.hypot(dx, dy);
+                    if (length < 0.1) continue;
+                    matrices.push(new THREE.Matrix4().compose(
+                        new THREE.Vector3(p1x + dx / 2 - baseX, objectHeight / 2, -(p1y + dy / 2 - baseY)),
+                        new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), -Math.atan2(dy, dx)),
+                        new THREE.Vector3(length, objectHeight, WALL_THICKNESS)
+                    ));
+                    detailIds.push(detail.id);
+                }
+            });
+            if (matrices.length === 0) return;
+            // Instance colours carry the type colour, so closed doors can be recoloured one by one
+            const material = getMaterial(`detail|${key}`, () => new THREE.MeshStandardMaterial({ color: 0xffffff }));
+            const mesh = new THREE.InstancedMesh(unitBox, material, matrices.length);
+            const color = new THREE.Color(DETAIL_TYPE_COLORS_3D[type]);
+            matrices.forEach((matrix, i) => {
+                mesh.setMatrixAt(i, matrix);
+                mesh.setColorAt(i, color);
+            });
+            mesh.computeBoundingSphere();
+            mesh.userData = { detailIds, detailType: type };
+            model.detailMeshes.push(mesh);
+            model.levelGroups.get(levelId)!.add(mesh);
+        });
+
+        staticModelRef.current = model;
+        layoutGroup(campusGroup, shownSeparationRef.current, levelDisplayRef.current);
+        if(data.units.length > 0) {
+            centerCamera(camera, controls, campusGroup);
+        }
+
+        return () => {
+            staticModelRef.current = null;
+            campusGroup.traverse(object => {
+                if (object instanceof THREE.Mesh && object.geometry !== unitBox) object.geometry.dispose();
+            });
+            campusGroup.clear();
+            unitBox.dispose();
+            materials.forEach(material => material.dispose());
+        };
+    }, [data, showProject, centerCamera, reprojectToMeters]);
 
-            const isSelected = unit.id === startUnitId || unit.id === endUnitId;
-            const color = isSelected ? 0xffff00 : UNIT_TYPE_COLORS_3D[unit.type];
-            const material = new THREE.MeshStandardMaterial({
+    // Effect for colouring the start, end and stop units: swaps in the floor's shared materials
+    useEffect(() => {
+        const model = staticModelRef.current;
+        const campusGroup = campusGroupRef.current;
+        if (!model || !campusGroup) return;
+        model.unitMeshes.forEach((mesh, unitId) => {
+            const levelId = mesh.userData.levelId;
+            const type = data.units.find(u => u.id === unitId)?.type;
+            const isSelected = unitId === startUnitId || unitId === endUnitId;
+            const isStop = stopUnitIds.includes(unitId);
+            const kind = isSelected ? 'selected' : isStop ? 'stop' : type;
+            const color = isSelected ? 0xffff00 : isStop ? 0xF59E0B : (type ? UNIT_TYPE_COLORS_3D[type] : 0x888888);
+            mesh.material = model.getMaterial(`unit|${levelId}|${kind}`, () => new THREE.MeshStandardMaterial({
                 color,
                 transparent: true,
-                opacity: isSelected ? 0.7 : 0.3,
+                opacity: isSelected || isStop ? 0.7 : 0.3,
                 side: THREE.DoubleSide,
+            }));
+        });
+        // Materials new to this floor pick up its ghosting
+        layoutGroup(campusGroup, shownSeparationRef.current, levelDisplayRef.current);
+    }, [data, showProject, startUnitId, endUnitId, stopUnitIds]);
+
+    // Effect for closures: closed units hatched just above their floor, closed doors in red
+    useEffect(() => {
+        const model = staticModelRef.current;
+        const campusGroup = campusGroupRef.current;
+        if (!model || !campusGroup) return;
+
+        const closedDoorIds = new Set(closures.filter(c => c.targetType === 'door').map(c => c.targetId));
+        const closedColor = new THREE.Color(0xDC2626);
+        model.detailMeshes.forEach(mesh => {
+            const typeColor = new THREE.Color(DETAIL_TYPE_COLORS_3D[mesh.userData.detailType as DetailType]);
+            (mesh.userData.detailIds as string[]).forEach((detailId, i) => {
+                mesh.setColorAt(i, closedDoorIds.has(detailId) ? closedColor : typeColor);
             });
+            if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        });
 
-            const mesh = new THREE.Mesh(geometry, material);
-            mesh.position.y = y_pos;
-            mesh.rotation.x = -Math.PI / 2;
-            campusGroup.add(mesh);
+        // Hatches reuse the unit's floor geometry, so only the meshes are removed afterwards
+        const hatches: THREE.Mesh[] = [];
+        new Set(closures.flatMap(c => getClosedUnitIds(c, data.units))).forEach(unitId => {
+            const floor = model.unitMeshes.get(unitId);
+            if (!floor) return;
+            const levelId = floor.userData.levelId;
+            const material = model.getMaterial(`hatch|${levelId}`, () =>
+                new THREE.MeshBasicMaterial({ map: hatchTexture, transparent: true, side: THREE.DoubleSide, depthWrite: false }));
+            const hatch = new THREE.Mesh(floor.geometry, material);
+            hatch.position.y = 0.05;
+            hatch.rotation.x = -Math.PI / 2;
+            model.levelGroups.get(levelId)!.add(hatch);
+            hatches.push(hatch);
         });
+        layoutGroup(campusGroup, shownSeparationRef.current, levelDisplayRef.current);
+        return () => hatches.forEach(hatch => hatch.removeFromParent());
+    }, [data, showProject, closures, hatchTexture]);
 
-        // Render details (walls, doors)
-        data.details?.forEach(detail => {
-            const level = data.levels.find(l => l.id === detail.levelId);
+    // Effect for the route: the path, its start, end and stop markers, and the navigator
+    useEffect(() => {
+        const routeGroup = routeGroupRef.current;
+        if (!routeGroup) return;
+        const anim = animationRef.current;
+        anim.isPlaying = false; // Stop any previous playback
+        anim.navigator = null;
+        anim.curve = null;
+        anim.activeStop = -1;
+        onPlaybackStepRef.current(null);
+        setIsPlaying(false);
+        setPlaybackProgress(0);
+        // Nothing to follow without a route
+        if (!showProject || !waypoints || waypoints.length < 2) setCameraMode('orbit');
+
+        routeGroup.visible = showProject;
+        // FIX: Check for `waypoints` from props instead of just `path`.
+        if (!showProject || !path || !waypoints || data.levels.length === 0 || !data.levels[0].polygon[0]) return;
+
+        const basePoint = data.levels[0].polygon[0];
+        const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        const pathPoints = waypoints.map(wp => {
+            const [mx, my] = reprojectToMeters([wp.point.x, wp.point.y]);
+            const level = data.levels.find(l => l.id === wp.levelId);
             const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+            return new THREE.Vector3(mx - baseX, y_pos + UNIT_HEIGHT / 2, -(my - baseY));
+        });
+        if (pathPoints.length > 1) {
+            // Draw path line
+            const curve = new THREE.CatmullRomCurve3(pathPoints);
+            const tubeGeo = new THREE.TubeGeometry(curve, pathPoints.length * 5, 0.5, 8, false);
+            const tubeMat = new THREE.MeshBasicMaterial({ color: 0xEA4335, transparent: true, opacity: 0.8 });
+            const pathLine = new THREE.Mesh(tubeGeo, tubeMat);
+            pathLine.userData.spansLevels = true;
+            routeGroup.add(pathLine);
 
-            const isDoor = detail.type === DetailType.DOOR;
-            const objectHeight = detail.height ?? (isDoor ? UNIT_HEIGHT - DOOR_HEIGHT_REDUCTION : UNIT_HEIGHT);
-            const y_center = y_pos + objectHeight / 2;
+            // Add start/end markers
+            const startMarker = new THREE.Mesh(new THREE.SphereGeometry(2, 32, 16), new THREE.MeshStandardMaterial({ color: 0x34A853 }));
+            startMarker.position.copy(pathPoints[0]);
+            routeGroup.add(startMarker);
 
-            for (let i = 0; i < detail.line.length - 1; i++) {
-                const [p1x, p1y] = reprojectToMeters([detail.line[i].x, detail.line[i].y]);
-                const [p2x, p2y] = reprojectToMeters([detail.line[i+1].x, detail.line[i+1].y]);
-                const p1 = { x: p1x - baseX, y: p1y - baseY };
-                const p2 = { x: p2x - baseX, y: p2y - baseY };
+            const endMarker = new THREE.Mesh(new THREE.SphereGeometry(2, 32, 16), new THREE.MeshStandardMaterial({ color: 0xEA4335 }));
+            endMarker.position.copy(pathPoints[pathPoints.length - 1]);
+            routeGroup.add(endMarker);
+
+            stopUnitIds.forEach(stopId => {
+                const stopUnit = data.units.find(u => u.id === stopId);
+                if (!stopUnit) return;
+                const center = getInteriorPoint(stopUnit.polygon);
+                const [mx, my] = reprojectToMeters([center.x, center.y]);
+                const level = data.levels.find(l => l.id === stopUnit.levelId);
+                const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+                const stopMarker = new THREE.Mesh(new THREE.SphereGeometry(1.5, 32, 16), new THREE.MeshStandardMaterial({ color: 0xF59E0B }));
+                stopMarker.position.set(mx - baseX, y_pos + UNIT_HEIGHT / 2, -(my - baseY));
+                routeGroup.add(stopMarker);
+            });
 
-                const dx = p2.x - p1.x;
-                const dy = p2.y - p1.y;
-                const length = Math.hypot(dx, dy);
-                if (length < 0.1) continue;
+            // Play the navigator along the route
+            const navGeo = new THREE.ConeGeometry(2, 5, 8);
+            navGeo.rotateX(Math.PI / 2);
+            const navigator = new THREE.Mesh(navGeo, new THREE.MeshStandardMaterial({ color: 0xEA4335, emissive: 0xfc8d83 }));
+            navigator.userData.skipLayout = true; // Placed by the render loop
+            routeGroup.add(navigator);
+            // Curve parameter i / (n - 1) is waypoint i; cumulative lengths turn that into progress
+            const divisionsPerWaypoint = 20;
+            const lengths = curve.getLengths((pathPoints.length - 1) * divisionsPerWaypoint);
+            const length = lengths[lengths.length - 1];
+            anim.navigator = navigator;
+            anim.curve = curve;
+            anim.length = length;
+            anim.waypointProgress = pathPoints.map((_, i) => length > 0 ? lengths[i * divisionsPerWaypoint] / length : 0);
+            anim.progress = 0;
+            anim.reportedProgress = 0;
+            anim.isPlaying = true;
+            setIsPlaying(true);
+        }
+        layoutGroup(routeGroup, shownSeparationRef.current, levelDisplayRef.current);
 
-                const midpoint = { x: p1.x + dx / 2, z: p1.y + dy / 2 };
-                const angle = Math.atan2(dy, dx);
+        return () => {
+            anim.isPlaying = false;
+            routeGroup.children.forEach(object => {
+                if (object instanceof THREE.Mesh) {
+                    object.geometry.dispose();
+                    (object.material as THREE.Material).dispose();
+                }
+            });
+            routeGroup.clear();
+        };
+    // FIX: Add `waypoints` to the dependency array.
+    }, [data, path, waypoints, stopUnitIds, clock, showProject, reprojectToMeters]);
+    
+    // Effect for drawing the previewed alternative route
+    useEffect(() => {
+        const highlightGroup = highlightGroupRef.current;
+        if (!highlightGroup) return;
+        highlightGroup.children.forEach(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+                (object.material as THREE.Material).dispose();
+            }
+        });
+        highlightGroup.clear();
+        highlightGroup.visible = showProject;
+        if (!highlightedWaypoints || highlightedWaypoints.length < 2 || data.levels.length === 0 || !data.levels[0].polygon[0]) return;
 
-                const geometry = new THREE.BoxGeometry(length, objectHeight, WALL_THICKNESS);
-                const material = new THREE.MeshStandardMaterial({ color: DETAIL_TYPE_COLORS_3D[detail.type] });
-                const wallSegment = new THREE.Mesh(geometry, material);
-                
-                wallSegment.position.set(midpoint.x, y_center, -midpoint.z);
-                wallSegment.rotation.y = -angle;
+        const basePoint = data.levels[0].polygon[0];
+        const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        const points = highlightedWaypoints.map(wp => {
+            const [mx, my] = reprojectToMeters([wp.point.x, wp.point.y]);
+            const level = data.levels.find(l => l.id === wp.levelId);
+            const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+            return new THREE.Vector3(mx - baseX, y_pos + UNIT_HEIGHT / 2, -(my - baseY));
+        });
+        const curve = new THREE.CatmullRomCurve3(points);
+        const tube = new THREE.Mesh(
+            new THREE.TubeGeometry(curve, points.length * 5, 0.4, 8, false),
+            new THREE.MeshBasicMaterial({ color: 0xA855F7, transparent: true, opacity: 0.8 })
+        );
+        tube.userData.spansLevels = true;
+        highlightGroup.add(tube);
+        layoutGroup(highlightGroup, shownSeparationRef.current, levelDisplayRef.current);
+    }, [highlightedWaypoints, data, showProject, reprojectToMeters]);
 
-                campusGroup.add(wallSegment);
+    // Effect for the step chosen in the directions: highlight its part of the route and zoom to it
+    useEffect(() => {
+        const stepGroup = stepGroupRef.current;
+        if (!stepGroup) return;
+        stepGroup.children.forEach(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+                (object.material as THREE.Material).dispose();
             }
         });
-        
-        // --- Path Visualization ---
-        // FIX: Check for `waypoints` from props instead of just `path`.
-        if (path && waypoints) {
-            const pathPoints = waypoints.map(wp => {
-                const [mx, my] = reprojectToMeters([wp.point.x, wp.point.y]);
-                const level = data.levels.find(l => l.id === wp.levelId);
-                const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
-                return new THREE.Vector3(mx - baseX, y_pos + UNIT_HEIGHT / 2, -(my - baseY));
+        stepGroup.clear();
+        stepGroup.visible = showProject;
+        if (!focusedStep || !waypoints || data.levels.length === 0 || !data.levels[0].polygon[0]) return;
+
+        const basePoint = data.levels[0].polygon[0];
+        const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        const points = waypoints.slice(focusedStep.fromIndex, focusedStep.toIndex + 1).map(wp => {
+            const [mx, my] = reprojectToMeters([wp.point.x, wp.point.y]);
+            const level = data.levels.find(l => l.id === wp.levelId);
+            const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+            return new THREE.Vector3(mx - baseX, y_pos + UNIT_HEIGHT / 2, -(my - baseY));
+        });
+        if (points.length === 0) return;
+        const material = new THREE.MeshBasicMaterial({ color: 0xFACC15, transparent: true, opacity: 0.9 });
+        if (points.length > 1) {
+            const curve = new THREE.CatmullRomCurve3(points);
+            const tube = new THREE.Mesh(new THREE.TubeGeometry(curve, points.length * 5, 0.8, 8, false), material);
+            tube.userData.spansLevels = true;
+            stepGroup.add(tube);
+        } else {
+            const marker = new THREE.Mesh(new THREE.SphereGeometry(2.5, 32, 16), material);
+            marker.position.copy(points[0]);
+            stepGroup.add(marker);
+        }
+        layoutGroup(stepGroup, shownSeparationRef.current, levelDisplayRef.current);
+
+        // Keep the viewing direction, but centre the step and bring the camera close enough to frame it
+        const { camera, controls } = threeRef.current || {};
+        if (!camera || !controls) return;
+        const box = new THREE.Box3().setFromObject(stepGroup);
+        const center = box.getCenter(new THREE.Vector3());
+        const size = box.getSize(new THREE.Vector3());
+        const fov = camera.fov * (Math.PI / 180);
+        const distance = Math.max(30, Math.max(size.x, size.y, size.z) / Math.tan(fov / 2));
+        const direction = camera.position.clone().sub(controls.target).normalize();
+        setCameraMode('orbit');
+        controls.target.copy(center);
+        camera.position.copy(center).addScaledVector(direction, distance);
+        controls.update();
+    }, [focusedStep, waypoints, data, showProject, reprojectToMeters]);
+
+    // Effect for the unit name labels, which do not change with the route
+    useEffect(() => {
+        const labelGroup = labelGroupRef.current;
+        if (!labelGroup) return;
+        labelGroup.clear(); // Removing a CSS2DObject removes its element too
+        labelGroup.visible = showProject;
+        if (data.levels.length === 0 || !data.levels[0].polygon[0]) return;
+
+        const basePoint = data.levels[0].polygon[0];
+        const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        data.units.forEach(unit => {
+            const level = data.levels.find(l => l.id === unit.levelId);
+            const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+            const center = getInteriorPoint(unit.polygon);
+            const [mx, my] = reprojectToMeters([center.x, center.y]);
+            const element = document.createElement('div');
+            element.className = 'px-1 rounded bg-gray-900/70 text-white text-xs whitespace-nowrap';
+            element.textContent = unit.name;
+            const label = new CSS2DObject(element);
+            label.position.set(mx - baseX, y_pos + 1, -(my - baseY));
+            label.userData.levelId = unit.levelId;
+            labelGroup.add(label);
+        });
+        layoutGroup(labelGroup, shownSeparationRef.current, levelDisplayRef.current);
+    }, [data, showProject, reprojectToMeters]);
+
+    // Pointer interaction with unit floors: hover outlines, and a click (not a camera drag)
+    // either picks the exact point while picking a start or end, or opens the unit's menu
+    useEffect(() => {
+        const three = threeRef.current;
+        const campusGroup = campusGroupRef.current;
+        if (!three || !campusGroup || data.levels.length === 0 || !data.levels[0].polygon[0]) return;
+        const element = three.renderer.domElement;
+        const basePoint = data.levels[0].polygon[0];
+        const [baseX, baseY] = reprojectToMeters([basePoint.x, basePoint.y]);
+        const raycaster = new THREE.Raycaster();
+
+        const findUnitHit = (event: PointerEvent) => {
+            const rect = element.getBoundingClientRect();
+            const pointer = new THREE.Vector2(
+                ((event.clientX - rect.left) / rect.width) * 2 - 1,
+                -((event.clientY - rect.top) / rect.height) * 2 + 1
+            );
+            raycaster.setFromCamera(pointer, three.camera);
+            return raycaster.intersectObjects(campusGroup.children)
+                .find(h => h.object.userData.unitId && isLevelInteractive(h.object.userData.levelId, levelDisplayRef.current));
+        };
+
+        let hoveredUnitId: string | null = null;
+        let outline: THREE.LineLoop | null = null;
+        const setHovered = (unitId: string | null) => {
+            if (unitId === hoveredUnitId) return;
+            hoveredUnitId = unitId;
+            if (outline) {
+                three.scene.remove(outline);
+                outline.geometry.dispose();
+                (outline.material as THREE.Material).dispose();
+                outline = null;
+            }
+            const unit = unitId ? data.units.find(u => u.id === unitId) : undefined;
+            if (!unit || !campusGroup.visible) return;
+            const level = data.levels.find(l => l.id === unit.levelId);
+            const y_pos = level ? level.zIndex * (UNIT_HEIGHT + LEVEL_SEPARATION) : 0;
+            const points = unit.polygon.map(p => {
+                const [mx, my] = reprojectToMeters([p.x, p.y]);
+                return new THREE.Vector3(mx - baseX, explodeY(y_pos + 0.1, shownSeparationRef.current), -(my - baseY));
             });
-            
-            if (pathPoints.length > 1) {
-                // Draw path line
-                const curve = new THREE.CatmullRomCurve3(pathPoints);
-                const tubeGeo = new THREE.TubeGeometry(curve, pathPoints.length * 5, 0.5, 8, false);
-                const tubeMat = new THREE.MeshBasicMaterial({ color: 0xEA4335, transparent: true, opacity: 0.8 });
-                const pathLine = new THREE.Mesh(tubeGeo, tubeMat);
-                campusGroup.add(pathLine);
-                
-                // Add start/end markers
-                const startMarkerGeo = new THREE.SphereGeometry(2, 32, 16);
-                const startMarkerMat = new THREE.MeshStandardMaterial({ color: 0x34A853 });
-                const startMarker = new THREE.Mesh(startMarkerGeo, startMarkerMat);
-                startMarker.position.copy(pathPoints[0]);
-                campusGroup.add(startMarker);
-
-                const endMarkerGeo = new THREE.SphereGeometry(2, 32, 16);
-                const endMarkerMat = new THREE.MeshStandardMaterial({ color: 0xEA4335 });
-                const endMarker = new THREE.Mesh(endMarkerGeo, endMarkerMat);
-                endMarker.position.copy(pathPoints[pathPoints.length - 1]);
-                campusGroup.add(endMarker);
-                
-                // Animate navigator
-                const anim = animationRef.current;
-                anim.curve = curve;
-                anim.duration = curve.getLength() / PATH_ANIMATION_SPEED;
-                anim.startTime = clock.getElapsedTime();
-                
-                if (!anim.navigator) {
-                    const navGeo = new THREE.ConeGeometry(2, 5, 8);
-                    navGeo.rotateX(Math.PI / 2);
-                    const navMat = new THREE.MeshStandardMaterial({ color: 0xEA4335, emissive: 0xfc8d83 });
-                    anim.navigator = new THREE.Mesh(navGeo, navMat);
-                    campusGroup.add(anim.navigator);
-                }
-                anim.navigator.visible = true;
-                anim.isAnimating = true;
+            outline = new THREE.LineLoop(
+                new THREE.BufferGeometry().setFromPoints(points),
+                new THREE.LineBasicMaterial({ color: 0xFACC15 })
+            );
+            three.scene.add(outline);
+        };
+
+        let pressedAt: { x: number; y: number } | null = null;
+        const handlePointerDown = (event: PointerEvent) => {
+            pressedAt = { x: event.clientX, y: event.clientY };
+        };
+        const handlePointerMove = (event: PointerEvent) => {
+            if (event.buttons !== 0) return; // Dragging the camera
+            const hit = findUnitHit(event);
+            setHovered(hit ? hit.object.userData.unitId : null);
+            element.style.cursor = onPickPointRef.current ? 'crosshair' : hit ? 'pointer' : '';
+        };
+        const handlePointerLeave = () => setHovered(null);
+        const handlePointerUp = (event: PointerEvent) => {
+            if (!pressedAt || Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y) > CLICK_TOLERANCE_PX) return;
+            const hit = findUnitHit(event);
+            const unitId: string | undefined = hit?.object.userData.unitId;
+            const onPick = onPickPointRef.current;
+            if (onPick) {
+                if (!hit || !unitId) return;
+                // Undo the model's offset and axis flip, then the projection
+                const [x, y] = reprojectFromMeters([hit.point.x + baseX, baseY - hit.point.z]);
+                if (Number.isFinite(x) && Number.isFinite(y)) onPick(unitId, { x, y });
+                return;
             }
+            const rect = element.getBoundingClientRect();
+            setUnitMenu(unitId && onSelectUnitRef.current
+                ? { unitId, x: event.clientX - rect.left, y: event.clientY - rect.top }
+                : null);
+        };
+        element.addEventListener('pointerdown', handlePointerDown);
+        element.addEventListener('pointermove', handlePointerMove);
+        element.addEventListener('pointerleave', handlePointerLeave);
+        element.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            element.removeEventListener('pointerdown', handlePointerDown);
+            element.removeEventListener('pointermove', handlePointerMove);
+            element.removeEventListener('pointerleave', handlePointerLeave);
+            element.removeEventListener('pointerup', handlePointerUp);
+            setHovered(null);
+            element.style.cursor = '';
+            setUnitMenu(null);
+        };
+    }, [data, reprojectToMeters, reprojectFromMeters]);
+
+    // Show, hide and ghost floors as the floor panel changes
+    useEffect(() => {
+        [campusGroupRef.current, highlightGroupRef.current, stepGroupRef.current].forEach(group => {
+            if (group) layoutGroup(group, shownSeparationRef.current, levelDisplayRef.current);
+        });
+    }, [hiddenLevelIds, focusedLevelId]);
+
+    // A new dataset has other floors; show them all again
+    useEffect(() => {
+        setHiddenLevelIds([]);
+        setFocusedLevelId(null);
+    }, [data.levels]);
+
+    const toggleLevelVisible = (levelId: string) => {
+        if (hiddenLevelIds.includes(levelId)) {
+            setHiddenLevelIds(hiddenLevelIds.filter(id => id !== levelId));
         } else {
-             if (animationRef.current.navigator) {
-                animationRef.current.navigator.visible = false;
-             }
+            setHiddenLevelIds([...hiddenLevelIds, levelId]);
+            if (focusedLevelId === levelId) setFocusedLevelId(null);
         }
-        
-        if(data.units.length > 0) {
-            centerCamera(camera, controls, campusGroup);
+    };
+
+    const toggleLevelFocus = (levelId: string) => {
+        if (focusedLevelId === levelId) {
+            setFocusedLevelId(null);
+        } else {
+            setFocusedLevelId(levelId);
+            setHiddenLevelIds(hiddenLevelIds.filter(id => id !== levelId));
         }
-    // FIX: Add `waypoints` to the dependency array.
-    }, [data, path, waypoints, startUnitId, endUnitId, clock, centerCamera, showProject, reprojectToMeters]);
-    
+    };
+
+    const sortedLevels = useMemo(() => [...data.levels].sort((a, b) => b.zIndex - a.zIndex), [data.levels]);
+
+    // While picking a start or end, show that clicks pick rather than open menus
+    useEffect(() => {
+        const element = threeRef.current?.renderer.domElement;
+        if (!element || !onPickPoint) return;
+        setUnitMenu(null);
+        element.style.cursor = 'crosshair';
+        return () => { element.style.cursor = ''; };
+    }, [onPickPoint]);
+
+    // The follow cameras steer themselves, so orbiting is only possible with the free camera
+    useEffect(() => {
+        const controls = threeRef.current?.controls;
+        if (!controls) return;
+        controls.enabled = cameraMode === 'orbit';
+        setUnitMenu(null);
+    }, [cameraMode]);
+
+    const togglePlayback = useCallback(() => {
+        const anim = animationRef.current;
+        if (!anim.curve) return;
+        // Playing again from the end starts over
+        if (!anim.isPlaying && anim.progress >= 1) anim.progress = 0;
+        anim.isPlaying = !anim.isPlaying;
+        setIsPlaying(anim.isPlaying);
+    }, []);
+
+    const scrubPlayback = useCallback((progress: number) => {
+        animationRef.current.progress = progress;
+        animationRef.current.reportedProgress = progress;
+        setPlaybackProgress(progress);
+    }, []);
+
     const zoomIn = useCallback(() => {
         threeRef.current?.controls.dollyIn(1.2);
         threeRef.current?.controls.update();
@@ -416,15 +1057,130 @@ const MapViewer3D: React.FC<MapViewerProps> = ({ data, path, waypoints, startUni
     const resetView = useCallback(() => {
         const { camera, controls } = threeRef.current || {};
         if (camera && controls && campusGroupRef.current) {
+            setCameraMode('orbit');
             centerCamera(camera, controls, campusGroupRef.current);
         }
     }, [centerCamera]);
     
+    const hasRoute = showProject && !!path && !!waypoints && waypoints.length > 1;
+    const menuUnit = unitMenu ? data.units.find(u => u.id === unitMenu.unitId) : undefined;
+
     const buttonClasses = "bg-gray-800/80 backdrop-blur-sm p-2 rounded-full text-white hover:bg-indigo-600 transition-colors w-10 h-10 flex items-center justify-center font-bold text-lg";
 
     return (
         <div className="w-full h-full relative">
             <div ref={mountRef} className="w-full h-full" />
+            {unitMenu && menuUnit && (
+                <div
+                    className="absolute z-20 bg-gray-800/95 rounded-md shadow-lg p-2 text-sm text-white space-y-2"
+                    style={{ left: unitMenu.x, top: unitMenu.y }}
+                >
+                    <div className="flex items-start justify-between space-x-3">
+                        <div>
+                            <div className="font-semibold">{menuUnit.name}</div>
+                            <div className="text-xs text-gray-400 capitalize">
+                                {menuUnit.type.toLowerCase()} · {data.levels.find(l => l.id === menuUnit.levelId)?.name ?? 'Unknown level'}
+                            </div>
+                        </div>
+                        <button onClick={() => setUnitMenu(null)} className="text-gray-400 hover:text-white" aria-label="Close">&times;</button>
+                    </div>
+                    <div className="flex space-x-2">
+                        {(['start', 'end'] as const).map(target => {
+                            const isSelected = (target === 'start' ? startUnitId : endUnitId) === menuUnit.id;
+                            return (
+                                <button
+                                    key={target}
+                                    onClick={() => {
+                                        setUnitMenu(null);
+                                        onSelectUnit?.(menuUnit.id, target);
+                                    }}
+                                    disabled={isSelected}
+                                    className="px-2 py-1 rounded bg-indigo-600 text-xs hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-default"
+                                >
+                                    {target === 'start' ? (isSelected ? 'Route starts here' : 'Route from here') : (isSelected ? 'Route ends here' : 'Route to here')}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+            {showProject && sortedLevels.length > 0 && (
+                <div className="absolute top-4 left-4 z-10 w-56 bg-gray-800/80 backdrop-blur-sm rounded-lg shadow-lg p-3 text-sm text-white">
+                    <h3 className="font-semibold mb-2">Floors</h3>
+                    <ul className="space-y-1 max-h-48 overflow-y-auto mb-3">
+                        {sortedLevels.map(level => {
+                            const isVisible = !hiddenLevelIds.includes(level.id);
+                            const isFocused = focusedLevelId === level.id;
+                            return (
+                                <li key={level.id} className="flex items-center justify-between">
+                                    <label className={`flex items-center space-x-2 ${isVisible ? '' : 'text-gray-500'}`}>
+                                        <input type="checkbox" checked={isVisible} onChange={() => toggleLevelVisible(level.id)} className="accent-indigo-500" />
+                                        <span>{level.name}</span>
+                                    </label>
+                                    <button
+                                        onClick={() => toggleLevelFocus(level.id)}
+                                        className={`px-2 py-0.5 rounded text-xs transition-colors ${isFocused ? 'bg-indigo-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                                        aria-pressed={isFocused}
+                                        aria-label={`Focus ${level.name}`}
+                                    >
+                                        Focus
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <label htmlFor="level-separation" className="block text-xs text-gray-300 mb-1">Spread floors</label>
+                    <input
+                        id="level-separation"
+                        type="range"
+                        min={LEVEL_SEPARATION}
+                        max={MAX_EXPLODED_LEVEL_SEPARATION}
+                        step={1}
+                        value={levelSeparation}
+                        onChange={e => setLevelSeparation(Number(e.target.value))}
+                        className="w-full accent-indigo-500"
+                    />
+                </div>
+            )}
+            {hasRoute && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center space-x-3 bg-gray-800/80 backdrop-blur-sm rounded-full shadow-lg px-4 py-2 text-sm text-white">
+                    <button
+                        onClick={togglePlayback}
+                        className="w-8 h-8 rounded-full bg-indigo-600 hover:bg-indigo-700 flex items-center justify-center"
+                        aria-label={isPlaying ? 'Pause route playback' : 'Play route'}
+                    >
+                        {isPlaying ? '❚❚' : '▶'}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.001}
+                        value={playbackProgress}
+                        onChange={e => scrubPlayback(Number(e.target.value))}
+                        className="w-48 accent-indigo-500"
+                        aria-label="Route progress"
+                    />
+                    <select
+                        value={playbackSpeed}
+                        onChange={e => setPlaybackSpeed(Number(e.target.value))}
+                        className="bg-gray-700 rounded px-1 py-0.5"
+                        aria-label="Playback speed"
+                    >
+                        {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+                    </select>
+                    <select
+                        value={cameraMode}
+                        onChange={e => setCameraMode(e.target.value as CameraMode)}
+                        className="bg-gray-700 rounded px-1 py-0.5"
+                        aria-label="Camera"
+                    >
+                        {(Object.keys(CAMERA_MODE_LABELS) as CameraMode[]).map(mode => (
+                            <option key={mode} value={mode}>{CAMERA_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
             <div className="absolute bottom-4 right-4 flex flex-col space-y-2 z-10">
                 <button onClick={zoomIn} className={buttonClasses} aria-label="Zoom in">+</button>
                 <button onClick={zoomOut} className={buttonClasses} aria-label="Zoom out">-</button>
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { Role, User } from '../types';
+import { ROLE_ACCESS } from '../constants';
+
+interface UserRoleManagerProps {
+  users: User[];
+  // The logged-in admin, who cannot change their own role and lock themselves out
+  currentUser: User;
+  onSetUserRole: (username: string, role: Role) => Promise<void>;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  staff: 'Staff',
+  maintenance: 'Maintenance',
+  viewer: 'Viewer',
+};
+
+/** Admin list of user accounts with the role each one is granted. */
+const UserRoleManager: React.FC<UserRoleManagerProps> = ({ users, currentUser, onSetUserRole }) => {
+  return (
+    <div className="md:col-span-2 bg-gray-900/50 p-6 rounded-lg">
+      <h3 className="text-xl font-semibold text-gray-200 mb-4">Users</h3>
+      <p className="text-sm text-gray-400 mb-4">
+          A user's role decides what they may change and whether their routes may pass through restricted spaces.
+      </p>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto pr-2">
+        {users.map(user => (
+          <div key={user.name} className="p-3 rounded-md flex justify-between items-center bg-gray-700/50">
+            <p className="font-semibold text-gray-200">
+              {user.name}
+              {user.name === currentUser.name && <span className="text-xs font-normal text-gray-400"> · you</span>}
+            </p>
+            <select
+              value={user.role}
+              onChange={e => onSetUserRole(user.name, e.target.value as Role)}
+              disabled={user.name === currentUser.name}
+              className="bg-gray-800 border-gray-600 rounded-md shadow-sm text-white text-sm focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+              aria-label={`Role of ${user.name}`}
+            >
+              {(Object.keys(ROLE_ACCESS) as Role[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UserRoleManager;
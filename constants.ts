@@ -1,4 +1,5 @@
 import { DetailType, UnitType } from './types';
+import type { AccessLevel, AmenityCategory, Role, RoutingProfile, RoutingProfileId, TravelTimeModel, VerticalCostConfig } from './types';
 
 export const UNIT_TYPE_COLORS: Record<UnitType, string> = {
   [UnitType.CLASSROOM]: 'bg-sky-800',
@@ -38,6 +39,7 @@ export const DETAIL_TYPE_COLORS_3D: Record<DetailType, number> = {
   [DetailType.WALL]: 0xcccccc, // light grey
   [DetailType.DOOR]: 0x85533c, // brown
   [DetailType.WINDOW]: 0x87ceeb, // sky blue
+  [DetailType.OPENING]: 0x22c55e, // green (not rendered as a solid)
 };
 export const WALL_THICKNESS = 2;
 export const DOOR_HEIGHT_REDUCTION = 0.5; // Doors are 0.5m shorter than walls
@@ -47,5 +49,118 @@ export const MAP_HEIGHT = 800;
 
 export const UNIT_HEIGHT = 3; // 3 meters
 export const LEVEL_SEPARATION = 5; // 5 meters of space between floors
+export const MAX_EXPLODED_LEVEL_SEPARATION = 40; // Widest gap between floors in the 3D exploded view
 
-export const PATH_ANIMATION_SPEED = 15; // meters per second for 3D path animation
\ No newline at end of file
+export const PATH_ANIMATION_SPEED = 15; // meters per second for 3D path animation
+export const STEP_THROUGH_SPEED = 10; // meters per second of the marker stepping through a route in 2D
+export const STEP_THROUGH_LEVEL_CHANGE_SECONDS = 1.5; // Time the 2D step-through spends on each floor change
+export const UNIT_LABEL_MAX_DISTANCE = 150; // meters from the camera beyond which 3D unit labels are hidden
+// Travel times of an average walker. The stair and elevator times also weight the vertical
+// edges of generated graphs, so bump GRAPH_VERSION in services/graphGenerator.ts when they change.
+export const WALKING_TIME_MODEL: TravelTimeModel = {
+  walkingSpeed: 1.4,
+  stairsSecondsPerFloor: 20,
+  elevatorWaitSeconds: 45,
+  elevatorSecondsPerFloor: 5,
+  doorSeconds: 3,
+};
+
+// Weights of the stair/elevator edges in generated graphs; the floor height also counts in
+// reported walking distances. Bump GRAPH_VERSION in services/graphGenerator.ts when changing it.
+export const DEFAULT_VERTICAL_COST: VerticalCostConfig = {
+  floorHeight: 4,
+  travelTime: WALKING_TIME_MODEL,
+};
+
+// Routing profiles selectable in the map controls. Add entries here to offer new ones;
+// the pathfinder only reads the declarative rules below.
+export const ROUTING_PROFILES: Record<RoutingProfileId, RoutingProfile> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Shortest walk using any stairs, elevators or rooms.',
+    excludedUnitTypes: [],
+    requireAccessible: false,
+    unitTypePenalties: {},
+    travelTime: WALKING_TIME_MODEL,
+    access: ['public'],
+  },
+  wheelchair: {
+    id: 'wheelchair',
+    name: 'Wheelchair',
+    description: 'Step-free route through accessible spaces only.',
+    excludedUnitTypes: [UnitType.STAIRS],
+    requireAccessible: true,
+    unitTypePenalties: {},
+    travelTime: { ...WALKING_TIME_MODEL, walkingSpeed: 1.0, doorSeconds: 8 },
+    access: ['public'],
+  },
+  stroller: {
+    id: 'stroller',
+    name: 'Stroller',
+    description: 'Step-free route that avoids squeezing through rooms.',
+    excludedUnitTypes: [UnitType.STAIRS],
+    requireAccessible: false,
+    unitTypePenalties: { [UnitType.CLASSROOM]: 2, [UnitType.OFFICE]: 2 },
+    travelTime: { ...WALKING_TIME_MODEL, walkingSpeed: 1.2, doorSeconds: 6 },
+    access: ['public'],
+  },
+  'avoid-stairs': {
+    id: 'avoid-stairs',
+    name: 'Avoid stairs',
+    description: 'Prefers elevators, but takes the stairs when there is no other way.',
+    excludedUnitTypes: [],
+    requireAccessible: false,
+    unitTypePenalties: { [UnitType.STAIRS]: 5 },
+    travelTime: WALKING_TIME_MODEL,
+    access: ['public'],
+  },
+  staff: {
+    id: 'staff',
+    name: 'Staff',
+    description: 'Shortest walk that may also cut through staff-only spaces.',
+    excludedUnitTypes: [],
+    requireAccessible: false,
+    unitTypePenalties: {},
+    travelTime: WALKING_TIME_MODEL,
+    access: ['public', 'restricted'],
+  },
+  visitor: {
+    id: 'visitor',
+    name: 'Visitor',
+    description: 'Keeps to corridors and public spaces; never cuts through offices.',
+    excludedUnitTypes: [UnitType.OFFICE],
+    requireAccessible: false,
+    unitTypePenalties: { [UnitType.CLASSROOM]: 3 },
+    travelTime: { ...WALKING_TIME_MODEL, walkingSpeed: 1.2 },
+    access: ['public'],
+  },
+};
+
+export const DEFAULT_ROUTING_PROFILE_ID: RoutingProfileId = 'standard';
+
+// Access tags each role may route through, whichever profile they pick. Visitors (viewers)
+// never get routes via restricted spaces.
+export const ROLE_ACCESS: Record<Role, AccessLevel[]> = {
+  admin: ['public', 'restricted'],
+  staff: ['public', 'restricted'],
+  maintenance: ['public', 'restricted'],
+  viewer: ['public'],
+};
+
+// Groups of unit types offered by the "find nearby" search, besides the individual types.
+export const AMENITY_CATEGORIES: AmenityCategory[] = [
+  { id: 'food', name: 'Food & drink', unitTypes: [UnitType.RESTAURANT] },
+  { id: 'exit', name: 'Exits', unitTypes: [UnitType.ENTRANCE] },
+  { id: 'vertical', name: 'Stairs & elevators', unitTypes: [UnitType.STAIRS, UnitType.ELEVATOR] },
+  { id: 'rooms', name: 'Classrooms & offices', unitTypes: [UnitType.CLASSROOM, UnitType.OFFICE] },
+];
+
+// How many distinct routes a search offers to choose from.
+export const ALTERNATIVE_ROUTE_COUNT = 3;
+
+// How many results the "find nearby" search returns.
+export const NEARBY_RESULT_COUNT = 5;
+
+// How often the map re-checks which closures are in force, in milliseconds.
+export const CLOSURE_REFRESH_INTERVAL_MS = 60_000;
@@ -1,12 +1,98 @@
-
-import { useMemo } from 'react';
-import type { CampusData, NavGraphNode, Waypoint } from '../types';
-import { AccessibilityFilter, UnitType } from '../types';
-import { generateNavigationGraph } from '../services/graphGenerator';
-import { getHaversineDistance } from '../utils/geometry';
-
-export const useGraph = (data: CampusData) => {
-    const navGraph = useMemo(() => generateNavigationGraph(data), [data]);
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { CampusData, Closure, EvacuationPlan, NavGraphNode, NavigationGraph, NearbyUnit, Role, RouteAnchor, RouteMetric, RoutePlan, RouteResult, RouteSummary, RoutingProfile, Unit, UnitType, Waypoint } from '../types';
+import { RoutingEngine, isAbortError, type RoutingRequestOptions } from '../services/routingEngine';
+import { buildPathWaypoints } from '../services/pathGeometry';
+import { resolveClosures } from '../services/closures';
+import { addAnchorsToNodeMap } from '../services/routeAnchors';
+import { getAllowedAccess } from '../services/pathfinder';
+import { detectCoordinateSystem } from '../utils/coordinateSystem';
+import { DEFAULT_VERTICAL_COST, ROLE_ACCESS } from '../constants';
+
+const EMPTY_GRAPH: NavigationGraph = { nodes: [], edges: {} };
+const NO_CLOSURES: Closure[] = [];
+const NO_ANCHORS: RouteAnchor[] = [];
+
+/**
+ * Routing state for a dataset. When `prebuiltGraph` is given (e.g. loaded from the
+ * database) it is handed to the worker as-is; otherwise the worker generates the graph
+ * and passes it to `onGraphBuilt`, e.g. to store it.
+ * Routes only pass through the spaces both their profile and `role` (in ROLE_ACCESS) allow,
+ * and avoid everything `closures` close; pass only the closures in force. Start and end ids may
+ * also refer to `anchors`, exact positions added to the graph for each query.
+ */
+export const useGraph = (
+    data: CampusData,
+    prebuiltGraph?: NavigationGraph | null,
+    role: Role = 'viewer',
+    closures: Closure[] = NO_CLOSURES,
+    anchors: RouteAnchor[] = NO_ANCHORS,
+    onGraphBuilt?: (graph: NavigationGraph) => void
+) => {
+    // Graph generation and path searches run in a Web Worker; see services/routingEngine.ts
+    const engineRef = useRef<RoutingEngine | null>(null);
+    const [navGraph, setNavGraph] = useState<NavigationGraph>(EMPTY_GRAPH);
+    // Percentage while the graph for the current dataset is being built, null once it is ready
+    const [graphProgress, setGraphProgress] = useState<number | null>(0);
+    // Read once a build finishes, so a new callback does not restart the build
+    const onGraphBuiltRef = useRef(onGraphBuilt);
+    onGraphBuiltRef.current = onGraphBuilt;
+
+    useEffect(() => {
+        const engine = new RoutingEngine();
+        engineRef.current = engine;
+        return () => {
+            engine.dispose();
+            engineRef.current = null;
+        };
+    }, []);
+
+    // Rebuild (or reload) the graph whenever the dataset changes, cancelling any build still in flight
+    useEffect(() => {
+        const engine = engineRef.current;
+        if (!engine) return;
+
+        const controller = new AbortController();
+        const options = { signal: controller.signal, onProgress: setGraphProgress };
+        setNavGraph(EMPTY_GRAPH);
+        setGraphProgress(0);
+        const ready = prebuiltGraph
+            ? engine.load(prebuiltGraph, data.levels, options).then(() => prebuiltGraph)
+            : engine.build(data, options).then(graph => {
+                onGraphBuiltRef.current?.(graph);
+                return graph;
+            });
+        ready
+            .then(graph => {
+                setNavGraph(graph);
+                setGraphProgress(null);
+            })
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.error('Failed to build navigation graph:', error);
+                setGraphProgress(null);
+            });
+        return () => controller.abort();
+    }, [data, prebuiltGraph]);
+
+    // The closures the worker routes around, set once it has them so queries can wait for them
+    const [appliedClosures, setAppliedClosures] = useState<Closure[]>(NO_CLOSURES);
+
+    // Door closures are resolved against the graph, so resolve again once it is ready
+    useEffect(() => {
+        const engine = engineRef.current;
+        if (!engine) return;
+        let cancelled = false;
+        engine.setClosures(resolveClosures(closures, navGraph, data.units))
+            .then(() => {
+                if (!cancelled) setAppliedClosures(closures);
+            })
+            .catch(error => {
+                if (!isAbortError(error)) console.error('Failed to apply closures:', error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [closures, navGraph, data.units]);
 
     // Create a Map for O(1) node access
     const nodeMap = useMemo(() => {
@@ -15,101 +101,117 @@ export const useGraph = (data: CampusData) => {
         return map;
     }, [navGraph]);
 
-    const getPath = (startId: string, endId: string, filter: AccessibilityFilter): string[] | null => {
-        if (!startId || !endId) return null;
-        if (!nodeMap.has(startId) || !nodeMap.has(endId)) return null;
-
-        const distances = new Map<string, number>();
-        const previous = new Map<string, string | null>();
-        const queue = new Set<string>();
-
-        navGraph.nodes.forEach(node => {
-            distances.set(node.id, Infinity);
-            previous.set(node.id, null);
-            queue.add(node.id);
-        });
-
-        distances.set(startId, 0);
-
-        while (queue.size > 0) {
-            let u: string | null = null;
-            let minDist = Infinity;
-
-            // Simple priority queue implementation
-            for (const id of queue) {
-                const d = distances.get(id)!;
-                if (d < minDist) {
-                    minDist = d;
-                    u = id;
-                }
-            }
-
-            if (u === null || u === endId) break;
-            if (minDist === Infinity) break; // Remaining nodes are unreachable
-
-            queue.delete(u);
-
-            const neighbors = navGraph.edges[u] || [];
-            for (const edge of neighbors) {
-                if (!queue.has(edge.to)) continue;
-
-                // Filter logic
-                if (filter === AccessibilityFilter.ELEVATOR_ONLY && edge.type === 'vertical') {
-                    // Check if the connection involves Stairs
-                    // Since vertical edges connect two centers, we check the node type.
-                    // If using elevator only, we skip STAIRS.
-                    const uNode = nodeMap.get(edge.from);
-                    const vNode = nodeMap.get(edge.to);
-                    
-                    if (uNode?.unitType === UnitType.STAIRS || vNode?.unitType === UnitType.STAIRS) {
-                        continue;
-                    }
-                }
-
-                const alt = distances.get(u)! + edge.weight;
-                if (alt < distances.get(edge.to)!) {
-                    distances.set(edge.to, alt);
-                    previous.set(edge.to, u);
-                }
-            }
-        }
+    // Lookup for turning paths into waypoints, which may start or end at an anchor
+    const pathNodeMap = useMemo(() => addAnchorsToNodeMap(nodeMap, navGraph.edges, anchors), [nodeMap, navGraph, anchors]);
+
+    const getPath = async (
+        startId: string,
+        endId: string,
+        profile: RoutingProfile,
+        metric: RouteMetric = 'distance',
+        options?: RoutingRequestOptions
+    ): Promise<RouteResult | null> => {
+        const engine = engineRef.current;
+        if (!engine || !startId || !endId) return null;
+        return engine.findPath({ startId, endId, profile, metric, allowedAccess: getAllowedAccess(profile, ROLE_ACCESS[role]), anchors }, options);
+    };
 
-        // Reconstruct path
-        const path: string[] = [];
-        let current: string | null = endId;
-        
-        // If destination is unreachable
-        if (distances.get(endId) === Infinity) return null;
+    /** Up to `k` distinct routes between two units, best first. */
+    const getAlternativePaths = async (
+        startId: string,
+        endId: string,
+        k: number,
+        profile: RoutingProfile,
+        metric: RouteMetric,
+        options?: RoutingRequestOptions
+    ): Promise<RouteResult[]> => {
+        const engine = engineRef.current;
+        if (!engine || !startId || !endId) return [];
+        return engine.findAlternatives({ startId, endId, profile, metric, allowedAccess: getAllowedAccess(profile, ROLE_ACCESS[role]), anchors }, k, options);
+    };
 
-        while (current) {
-            path.unshift(current);
-            current = previous.get(current) || null;
-        }
+    /** Route from the first to the last of `stopIds` through the others; see services/routePlanner.ts. */
+    const planRoute = async (
+        stopIds: string[],
+        profile: RoutingProfile,
+        metric: RouteMetric,
+        optimiseOrder: boolean,
+        options?: RoutingRequestOptions
+    ): Promise<RoutePlan | null> => {
+        const engine = engineRef.current;
+        if (!engine || stopIds.length < 2) return null;
+        return engine.planRoute(stopIds, { profile, metric, allowedAccess: getAllowedAccess(profile, ROLE_ACCESS[role]), anchors }, optimiseOrder, options);
+    };
 
-        return path.length > 0 ? path : null;
+    /** The `k` closest units of the given types from `startId`, ranked by route cost. */
+    const findNearest = async (
+        startId: string,
+        unitTypes: UnitType[],
+        k: number,
+        profile: RoutingProfile,
+        metric: RouteMetric,
+        options?: RoutingRequestOptions
+    ): Promise<NearbyUnit[]> => {
+        const engine = engineRef.current;
+        if (!engine || !startId || unitTypes.length === 0) return [];
+        return engine.findNearest(startId, unitTypes, k, { profile, metric, allowedAccess: getAllowedAccess(profile, ROLE_ACCESS[role]), anchors }, options);
     };
 
+    /** Egress from every unit to its nearest open exit; see services/evacuation.ts. Not limited by role. */
+    const getEvacuationPlan = useCallback(async (blockedExitIds: string[], options?: RoutingRequestOptions): Promise<EvacuationPlan | null> => {
+        const engine = engineRef.current;
+        if (!engine) return null;
+        return engine.evacuationPlan(blockedExitIds, options);
+    }, []);
+
+    const unitMap = useMemo(() => new Map<string, Unit>(data.units.map(u => [u.id, u])), [data.units]);
+
+    // Waypoints follow the shortest walk inside each traversed unit, not straight node-to-node hops
     const getPathWaypoints = (path: string[]): Waypoint[] => {
         if (!path) return [];
-        return path.map(id => {
-            const node = nodeMap.get(id);
-            if (!node) return null;
-            return { point: node.point, levelId: node.levelId };
-        }).filter((wp): wp is Waypoint => !!wp);
+        return buildPathWaypoints(path, pathNodeMap, unitMap);
     };
 
+    // Legs are expanded separately so each stop's centroid is kept as a point of the route
+    const getPlanWaypoints = (plan: RoutePlan): Waypoint[] =>
+        plan.legs.flatMap((leg, i) => getPathWaypoints(leg.path).slice(i > 0 ? 1 : 0));
+
+    const crs = useMemo(() => detectCoordinateSystem(data.units.flatMap(u => u.polygon)), [data.units]);
+    const levelZ = useMemo(() => new Map(data.levels.map(l => [l.id, l.zIndex])), [data.levels]);
+
+    /** Walking distance of a route in metres; level changes count as the floor height climbed. */
     const calculatePathDistance = (waypoints: Waypoint[]): number => {
         let distance = 0;
         for (let i = 0; i < waypoints.length - 1; i++) {
-            // Only calculate geographic distance for points on the same level
-            // Vertical distance is schematic in this calculation usually, 
-            // but haversine will return 0 for same lat/lon.
-            if (waypoints[i].levelId === waypoints[i+1].levelId) {
-                distance += getHaversineDistance(waypoints[i].point, waypoints[i+1].point);
+            const a = waypoints[i];
+            const b = waypoints[i + 1];
+            distance += crs.distance(a.point, b.point);
+            if (a.levelId !== b.levelId) {
+                const floors = Math.abs((levelZ.get(b.levelId) ?? 0) - (levelZ.get(a.levelId) ?? 0));
+                distance += floors * DEFAULT_VERTICAL_COST.floorHeight;
             }
         }
         return distance;
     };
 
-    return { graph: navGraph, getPath, getPathWaypoints, calculatePathDistance };
+    /** Distance, floors changed and stairs/elevators used along a route. */
+    const summariseRoute = (route: RouteResult): RouteSummary => {
+        let floorsChanged = 0;
+        const connectorTypes: UnitType[] = [];
+        for (let i = 0; i < route.path.length - 1; i++) {
+            const a = pathNodeMap.get(route.path[i]);
+            const b = pathNodeMap.get(route.path[i + 1]);
+            if (!a || !b || a.levelId === b.levelId) continue;
+            floorsChanged += Math.abs((levelZ.get(b.levelId) ?? 0) - (levelZ.get(a.levelId) ?? 0));
+            if (a.unitType && !connectorTypes.includes(a.unitType)) connectorTypes.push(a.unitType);
+        }
+        return {
+            distance: calculatePathDistance(getPathWaypoints(route.path)),
+            travelTime: route.travelTime,
+            floorsChanged,
+            connectorTypes,
+        };
+    };
+
+    return { graph: navGraph, graphProgress, appliedClosures, getPath, getAlternativePaths, planRoute, findNearest, getEvacuationPlan, getPathWaypoints, getPlanWaypoints, calculatePathDistance, summariseRoute };
 };
@@ -1,6 +1,8 @@
 import React, { useState, useCallback } from 'react';
-import type { CampusData, Dataset } from '../types';
+import type { CampusData, Closure, Dataset, Role, User } from '../types';
 import { parseShapefile, parseGeoPackage, exportToGeoJson } from '../utils/gisParser';
+import ClosureManager from '../components/ClosureManager';
+import UserRoleManager from '../components/UserRoleManager';
 
 interface AdminPageProps {
   datasets: Dataset[];
@@ -8,9 +10,15 @@ interface AdminPageProps {
   onDataUpload: (name: string, uploadResult: { campusData: CampusData; mapOrigin?: { lat: number; lon: number } }) => Promise<void>;
   onSwitchDataset: (id: number) => void;
   onDeleteDataset: (id: number) => Promise<void>;
+  closures: Closure[];
+  onAddClosure: (closure: Omit<Closure, 'id'>) => Promise<void>;
+  onDeleteClosure: (id: number) => Promise<void>;
+  users: User[];
+  currentUser: User;
+  onSetUserRole: (username: string, role: Role) => Promise<void>;
 }
 
-const AdminPage: React.FC<AdminPageProps> = ({ datasets, campusData, onDataUpload, onSwitchDataset, onDeleteDataset }) => {
+const AdminPage: React.FC<AdminPageProps> = ({ datasets, campusData, onDataUpload, onSwitchDataset, onDeleteDataset, closures, onAddClosure, onDeleteClosure, users, currentUser, onSetUserRole }) => {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [datasetName, setDatasetName] = useState<string>('');
@@ -152,6 +160,19 @@ const AdminPage: React.FC<AdminPageProps> = ({ datasets, campusData, onDataUploa
                 </div>
               )}
           </div>
+          {/* Temporary closures of the active dataset */}
+          <ClosureManager
+            campusData={campusData}
+            closures={closures}
+            onAddClosure={onAddClosure}
+            onDeleteClosure={onDeleteClosure}
+          />
+          {/* Role of each user account */}
+          <UserRoleManager
+            users={users}
+            currentUser={currentUser}
+            onSetUserRole={onSetUserRole}
+          />
            {/* Section for Sample Templates */}
           <div className="md:col-span-2 bg-gray-900/50 p-6 rounded-lg">
             <h3 className="text-xl font-semibold text-gray-200 mb-4">Shapefile (.zip) Format Guidelines</h3>
@@ -199,7 +220,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ datasets, campusData, onDataUploa
                      <ul className="list-disc list-inside space-y-1 text-gray-300">
                         <li><code className="bg-gray-700 p-1 rounded">Details_Id</code> (Required, Unique)</li>
                         <li><code className="bg-gray-700 p-1 rounded">Level_Id</code> (Required, Links to Level)</li>
-                        <li><code className="bg-gray-700 p-1 rounded">Use_Type</code> (Required, e.g. Door-A, Wall-i)</li>
+                        <li><code className="bg-gray-700 p-1 rounded">Use_Type</code> (Required, e.g. Door-A, Wall-i, Opening)</li>
                          <li><code className="bg-gray-700 p-1 rounded">Height_Rel</code> (Required for 3D view)</li>
                     </ul>
                 </div>
@@ -1,76 +1,331 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Controls from '../components/Controls';
 import MapViewer from '../components/MapViewer';
 import MapViewer3D from '../components/MapViewer3D';
+import EvacuationPanel from '../components/EvacuationPanel';
 import { useGraph } from '../hooks/useGraph';
-import { AccessibilityFilter } from '../types';
-import type { CampusData, Waypoint } from '../types';
+import type { CampusData, Closure, EvacuationPlan, NavigationGraph, NavigationStep, NearbyUnit, Point, Role, RouteAnchor, RouteMetric, RoutePlan, RouteResult, RouteSummary, RoutingProfileId, UnitType, Waypoint } from '../types';
 import { View2DIcon, View3DIcon } from '../components/icons';
 import { navigationService } from '../services/navigationService';
+import type { GeneratedInstructions } from '../services/navigationService';
+import { isAbortError } from '../services/routingEngine';
+import { getClosureTargetName, isClosureActive } from '../services/closures';
+import { END_ANCHOR_ID, START_ANCHOR_ID } from '../services/routeAnchors';
+import { getPlaybackStops } from '../services/routePlayback';
+import { ALTERNATIVE_ROUTE_COUNT, CLOSURE_REFRESH_INTERVAL_MS, DEFAULT_ROUTING_PROFILE_ID, NEARBY_RESULT_COUNT, ROLE_ACCESS, ROUTING_PROFILES } from '../constants';
 
 interface MapPageProps {
   campusData: CampusData;
+  // Precomputed graph for campusData; generated in the routing worker when null
+  navGraph: NavigationGraph | null;
+  // Called with the graph the routing worker generated, so it can be stored
+  onGraphBuilt: (graph: NavigationGraph) => void;
   mapOrigin: { lat: number; lon: number } | null;
   activeDatasetName: string;
+  // Role of the logged-in user; decides whether routes may pass through restricted spaces
+  userRole: Role;
+  // Exits marked as blocked for the active dataset; only admins may change them
+  blockedExitIds: string[];
+  onSetExitBlocked: (unitId: string, blocked: boolean) => void;
+  // Every closure of the active dataset; only the ones in force are applied
+  closures: Closure[];
 }
 
-const MapPage: React.FC<MapPageProps> = ({ campusData, mapOrigin, activeDatasetName }) => {
+const MapPage: React.FC<MapPageProps> = ({ campusData, navGraph, onGraphBuilt, mapOrigin, activeDatasetName, userRole, blockedExitIds, onSetExitBlocked, closures }) => {
   const [startUnit, setStartUnit] = useState<string | null>(null);
   const [endUnit, setEndUnit] = useState<string | null>(null);
-  const [filter, setFilter] = useState<AccessibilityFilter>(AccessibilityFilter.NONE);
+  // Exact positions picked on the map inside startUnit/endUnit; routes then start or end there
+  const [startPoint, setStartPoint] = useState<Point | null>(null);
+  const [endPoint, setEndPoint] = useState<Point | null>(null);
+  const [pickTarget, setPickTarget] = useState<'start' | 'end' | null>(null);
+  // Intermediate stops between startUnit and endUnit, in visiting order
+  const [stops, setStops] = useState<string[]>([]);
+  const [optimiseStopOrder, setOptimiseStopOrder] = useState(false);
+  const [profileId, setProfileId] = useState<RoutingProfileId>(DEFAULT_ROUTING_PROFILE_ID);
+  // Profiles using access the role is not granted (e.g. staff-only spaces) are not offered
+  const routingProfiles = useMemo(
+    () => Object.values(ROUTING_PROFILES).filter(profile => profile.access.every(level => ROLE_ACCESS[userRole].includes(level))),
+    [userRole]
+  );
+  const [routeMetric, setRouteMetric] = useState<RouteMetric>('distance');
   const [path, setPath] = useState<string[] | null>(null);
-  const [pathInstructions, setPathInstructions] = useState<string>('');
+  const [pathInstructions, setPathInstructions] = useState<string>(''); // Notices such as "no path found"
+  const [navigationSteps, setNavigationSteps] = useState<NavigationStep[]>([]);
+  // Step texts of the model's reply as it streams in, until it becomes navigationSteps
+  const [draftSteps, setDraftSteps] = useState<string[]>([]);
   const [isGeneratingInstructions, setIsGeneratingInstructions] = useState(false);
+  // Who wrote navigationSteps: the local model, or the rule-based fallback
+  const [instructionSource, setInstructionSource] = useState<GeneratedInstructions['source'] | null>(null);
+  // Step the 3D route playback has reached, and the step chosen in the list to show on the map
+  const [playbackStepIndex, setPlaybackStepIndex] = useState<number | null>(null);
+  const [selectedStepIndex, setSelectedStepIndex] = useState<number | null>(null);
   const [viewMode, setViewMode] = useState<'2D' | '3D'>('2D');
   const [showProject, setShowProject] = useState<boolean>(true);
   const [selectedLevelId, setSelectedLevelId] = useState<string>('');
   const [pathDistance, setPathDistance] = useState<number | null>(null);
+  const [pathDuration, setPathDuration] = useState<number | null>(null); // Estimated seconds
   const [waypoints, setWaypoints] = useState<Waypoint[] | null>(null);
+  const [routingProgress, setRoutingProgress] = useState<number | null>(null);
+  // Cancels the in-flight route search when a new one starts or the route is cleared
+  const routeAbortRef = useRef<AbortController | null>(null);
+  // Results of the last "find nearby" search from startUnit, closest first
+  const [nearbyResults, setNearbyResults] = useState<NearbyUnit[] | null>(null);
+  const [isSearchingNearby, setIsSearchingNearby] = useState(false);
+  const nearbyAbortRef = useRef<AbortController | null>(null);
+  const [evacuationMode, setEvacuationMode] = useState(false);
+  const [evacuationPlan, setEvacuationPlan] = useState<EvacuationPlan | null>(null);
+  // Closures the current route detours around, and the time they add
+  const [detourNotes, setDetourNotes] = useState<string[]>([]);
+  const [detourExtraTime, setDetourExtraTime] = useState<number | null>(null);
+  // Routes offered for the current start and end, best first; one of them is shown as the path
+  const [alternatives, setAlternatives] = useState<{ route: RouteResult; summary: RouteSummary }[]>([]);
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  const [highlightedWaypoints, setHighlightedWaypoints] = useState<Waypoint[] | null>(null);
+
+  // Closures start and end on their own, so re-check which are in force every so often.
+  // The array is only replaced when that changes, as the viewers redraw on every new one.
+  const [activeClosures, setActiveClosures] = useState<Closure[]>([]);
+  useEffect(() => {
+    const update = () => setActiveClosures(previous => {
+      const active = closures.filter(c => isClosureActive(c, new Date()));
+      const unchanged = active.length === previous.length && active.every((c, i) => c === previous[i]);
+      return unchanged ? previous : active;
+    });
+    update();
+    const timer = setInterval(update, CLOSURE_REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [closures]);
+
+  const anchors = useMemo(() => {
+    const result: RouteAnchor[] = [];
+    if (startUnit && startPoint) result.push({ id: START_ANCHOR_ID, unitId: startUnit, point: startPoint });
+    if (endUnit && endPoint) result.push({ id: END_ANCHOR_ID, unitId: endUnit, point: endPoint });
+    return result;
+  }, [startUnit, startPoint, endUnit, endPoint]);
+  // Node ids to route between: the picked points when there are any, otherwise the units
+  const startId = startUnit && startPoint ? START_ANCHOR_ID : startUnit;
+  const endId = endUnit && endPoint ? END_ANCHOR_ID : endUnit;
+
+  const {
+    graph, graphProgress, appliedClosures, getAlternativePaths, planRoute, findNearest, getEvacuationPlan,
+    getPathWaypoints, getPlanWaypoints, calculatePathDistance, summariseRoute,
+  } = useGraph(campusData, navGraph, userRole, activeClosures, anchors, onGraphBuilt);
+
+  // Where 3D playback pauses to show each step
+  const playbackStops = useMemo(() => getPlaybackStops(navigationSteps), [navigationSteps]);
+  const selectedStep = selectedStepIndex !== null ? navigationSteps[selectedStepIndex] ?? null : null;
+
+  // Showing a step also shows its floor in 2D
+  const handleSelectStep = (index: number | null) => {
+    setSelectedStepIndex(index);
+    const step = index !== null ? navigationSteps[index] : undefined;
+    if (step) setSelectedLevelId(step.levelId);
+  };
+
+  // Choosing a unit from a list replaces any point picked on the map
+  const selectStartUnit = (unitId: string) => {
+    setStartUnit(unitId);
+    setStartPoint(null);
+  };
+  const selectEndUnit = (unitId: string) => {
+    setEndUnit(unitId);
+    setEndPoint(null);
+  };
+
+  // "Route from here" / "Route to here" on a unit in the map
+  const handleSelectUnit = (unitId: string, target: 'start' | 'end') =>
+    target === 'start' ? selectStartUnit(unitId) : selectEndUnit(unitId);
 
-  const { getPath, getPathWaypoints, calculatePathDistance } = useGraph(campusData);
+  // A map click while picking sets the start or end to that exact point of the clicked unit
+  const handlePickPoint = (unitId: string, point: Point) => {
+    if (pickTarget === 'start') {
+      setStartUnit(unitId);
+      setStartPoint(point);
+    } else if (pickTarget === 'end') {
+      setEndUnit(unitId);
+      setEndPoint(point);
+    }
+    setPickTarget(null);
+  };
+
+  // Cancels the previous route request, and any instructions still streaming for it,
+  // and returns the controller for a new one
+  const startRouteRequest = () => {
+    routeAbortRef.current?.abort();
+    setIsGeneratingInstructions(false);
+    setDraftSteps([]);
+    const controller = new AbortController();
+    routeAbortRef.current = controller;
+    return controller;
+  };
+
+  // Draws a found route (or reports that there is none) and generates its instructions
+  const showPlan = async (plan: RoutePlan | null, controller: AbortController) => {
+    // Legs share their end/start stop, so keep it once when stitching them together
+    const newPath = plan ? plan.legs.flatMap((leg, i) => leg.path.slice(i > 0 ? 1 : 0)) : null;
+    setPath(newPath);
+    setIsGeneratingInstructions(false);
+
+    setNavigationSteps([]);
+    setDraftSteps([]);
+    setSelectedStepIndex(null);
+    setInstructionSource(null);
+    if (newPath) {
+      setPathInstructions('');
+      const newWaypoints = getPlanWaypoints(plan);
+      setWaypoints(newWaypoints);
+
+      const distance = calculatePathDistance(newWaypoints);
+      setPathDistance(distance);
+      setPathDuration(plan.travelTime);
+
+      const detours = plan.legs.flatMap(leg => leg.detour ? [leg.detour] : []);
+      const detourClosureIds = new Set(detours.flatMap(d => d.closureIds));
+      setDetourNotes(closures
+        .filter(c => detourClosureIds.has(c.id))
+        .map(c => `${getClosureTargetName(c, campusData)}: ${c.reason}`));
+      setDetourExtraTime(detours.length > 0 ? detours.reduce((sum, d) => sum + d.extraTravelTime, 0) : null);
+
+      // Generate text instructions
+      setIsGeneratingInstructions(true);
+      try {
+        const instructions = await navigationService.generateInstructions(newPath, newWaypoints, campusData, {
+          signal: controller.signal,
+          onDraft: stepTexts => {
+            if (!controller.signal.aborted) setDraftSteps(stepTexts);
+          },
+        });
+        // Ignore instructions for a route that was cleared or replaced meanwhile
+        if (controller.signal.aborted) return;
+        setNavigationSteps(instructions.steps);
+        setInstructionSource(instructions.source);
+        setDraftSteps([]);
+      } catch (error) {
+        // Clearing or replacing the route stops its instructions
+        if (isAbortError(error)) return;
+        console.error(error);
+        setDraftSteps([]);
+        setPathInstructions('Failed to generate instructions.');
+      } finally {
+        if (!controller.signal.aborted) setIsGeneratingInstructions(false);
+      }
+    } else {
+      setPath(null);
+      setWaypoints(null);
+      setPathDistance(null);
+      setPathDuration(null);
+      setDetourNotes([]);
+      setDetourExtraTime(null);
+      setPathInstructions(activeClosures.length > 0
+        ? 'No navigable path could be found. Some spaces are currently closed; try a different routing profile or select different locations.'
+        : 'No navigable path could be found. Try a different routing profile or select different locations.');
+    }
+  };
 
   const handleFindPath = async () => {
-    if (startUnit && endUnit) {
-      const newPath = getPath(startUnit, endUnit, filter);
-      setPath(newPath);
-      setIsGeneratingInstructions(false);
-
-      if (newPath) {
-        setPathInstructions('');
-        const newWaypoints = getPathWaypoints(newPath);
-        setWaypoints(newWaypoints);
-
-        const distance = calculatePathDistance(newWaypoints);
-        setPathDistance(distance);
-
-        // Generate text instructions
-        setIsGeneratingInstructions(true);
-        try {
-          const instructions = await navigationService.generateInstructions(newPath, campusData);
-          setPathInstructions(instructions);
-        } catch (error) {
-          console.error(error);
-          setPathInstructions('Failed to generate instructions.');
-        } finally {
-          setIsGeneratingInstructions(false);
+    if (startId && endId) {
+      const controller = startRouteRequest();
+
+      let plan: RoutePlan | null;
+      setRoutingProgress(0);
+      try {
+        const profile = ROUTING_PROFILES[profileId];
+        const options = { signal: controller.signal, onProgress: setRoutingProgress };
+        if (stops.length > 0) {
+          plan = await planRoute([startId, ...stops, endId], profile, routeMetric, optimiseStopOrder, options);
+          setAlternatives([]);
+        } else {
+          const routes = await getAlternativePaths(startId, endId, ALTERNATIVE_ROUTE_COUNT, profile, routeMetric, options);
+          setAlternatives(routes.map(route => ({ route, summary: summariseRoute(route) })));
+          setSelectedAlternative(0);
+          const route = routes[0];
+          plan = route ? { stopIds: [startId, endId], legs: [route], travelTime: route.travelTime } : null;
         }
-      } else {
-        setPath(null);
-        setWaypoints(null);
-        setPathDistance(null);
-        setPathInstructions('No navigable path could be found. Try changing accessibility options or selecting different locations.');
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('Route search failed:', error);
+        plan = null;
+      } finally {
+        if (routeAbortRef.current === controller) setRoutingProgress(null);
       }
+
+      if (plan && optimiseStopOrder) setStops(plan.stopIds.slice(1, -1));
+      await showPlan(plan, controller);
+    }
+  };
+
+  const handleSelectAlternative = (index: number) => {
+    const route = alternatives[index]?.route;
+    if (!route || !startId || !endId) return;
+    setSelectedAlternative(index);
+    setHighlightedWaypoints(null);
+    showPlan({ stopIds: [startId, endId], legs: [route], travelTime: route.travelTime }, startRouteRequest());
+  };
+
+  // Previews an alternative on the map without making it the route
+  const handleHighlightAlternative = (index: number | null) => {
+    const route = index !== null && index !== selectedAlternative ? alternatives[index]?.route : undefined;
+    setHighlightedWaypoints(route ? getPathWaypoints(route.path) : null);
+  };
+
+  const handleFindNearby = async (unitTypes: UnitType[]) => {
+    if (!startId) return;
+    nearbyAbortRef.current?.abort();
+    const controller = new AbortController();
+    nearbyAbortRef.current = controller;
+
+    setIsSearchingNearby(true);
+    try {
+      const results = await findNearest(startId, unitTypes, NEARBY_RESULT_COUNT, ROUTING_PROFILES[profileId], routeMetric, { signal: controller.signal });
+      setNearbyResults(results);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Nearby search failed:', error);
+      setNearbyResults([]);
+    } finally {
+      if (nearbyAbortRef.current === controller) setIsSearchingNearby(false);
     }
   };
 
+  // The nearby search already found the route, so show it without searching again
+  const handleRouteToNearby = (result: NearbyUnit) => {
+    if (!startId) return;
+    setEndUnit(result.unitId);
+    setEndPoint(null);
+    setStops([]);
+    setAlternatives([]);
+    showPlan({ stopIds: [startId, result.unitId], legs: [result], travelTime: result.travelTime }, startRouteRequest());
+  };
+
   const handleClearPath = useCallback(() => {
+    routeAbortRef.current?.abort();
+    routeAbortRef.current = null;
+    nearbyAbortRef.current?.abort();
+    nearbyAbortRef.current = null;
+    setIsSearchingNearby(false);
+    setNearbyResults(null);
+    setRoutingProgress(null);
+    setIsGeneratingInstructions(false);
     setStartUnit(null);
     setEndUnit(null);
+    setStartPoint(null);
+    setEndPoint(null);
+    setPickTarget(null);
+    setStops([]);
     setPath(null);
     setWaypoints(null);
     setPathInstructions('');
+    setNavigationSteps([]);
+    setDraftSteps([]);
+    setSelectedStepIndex(null);
+    setInstructionSource(null);
     setPathDistance(null);
+    setPathDuration(null);
+    setDetourNotes([]);
+    setDetourExtraTime(null);
+    setAlternatives([]);
+    setHighlightedWaypoints(null);
   }, []);
 
   // When campusData changes, clear the old path and selections, and reset the selected level
@@ -96,6 +351,26 @@ const MapPage: React.FC<MapPageProps> = ({ campusData, mapOrigin, activeDatasetN
     }
   }, [startUnit, endUnit, campusData.units]);
 
+  // Nearby results are ranked from the start, so they go stale when it changes
+  useEffect(() => {
+    setNearbyResults(null);
+  }, [startUnit, startPoint]);
+
+  // Recalculate the evacuation plan whenever the graph, the blocked exits or the closures the worker routes around change
+  useEffect(() => {
+    setEvacuationPlan(null);
+    if (!evacuationMode || graphProgress !== null) return;
+
+    const controller = new AbortController();
+    getEvacuationPlan(blockedExitIds, { signal: controller.signal })
+      .then(setEvacuationPlan)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Evacuation planning failed:', error);
+      });
+    return () => controller.abort();
+  }, [evacuationMode, graph, graphProgress, blockedExitIds, appliedClosures, getEvacuationPlan]);
+
 
   return (
     <div className="flex h-full w-full">
@@ -103,20 +378,50 @@ const MapPage: React.FC<MapPageProps> = ({ campusData, mapOrigin, activeDatasetN
         units={campusData.units}
         levels={campusData.levels}
         startUnit={startUnit}
-        setStartUnit={setStartUnit}
+        setStartUnit={selectStartUnit}
         endUnit={endUnit}
-        setEndUnit={setEndUnit}
-        filter={filter}
-        setFilter={setFilter}
+        setEndUnit={selectEndUnit}
+        startIsPoint={startPoint !== null}
+        endIsPoint={endPoint !== null}
+        pickTarget={pickTarget}
+        onPickOnMap={setPickTarget}
+        stops={stops}
+        setStops={setStops}
+        optimiseStopOrder={optimiseStopOrder}
+        setOptimiseStopOrder={setOptimiseStopOrder}
+        nearbyResults={nearbyResults}
+        isSearchingNearby={isSearchingNearby}
+        onFindNearby={handleFindNearby}
+        onRouteToNearby={handleRouteToNearby}
+        routingProfiles={routingProfiles}
+        profileId={profileId}
+        setProfileId={setProfileId}
+        routeMetric={routeMetric}
+        setRouteMetric={setRouteMetric}
         onFindPath={handleFindPath}
         onClearPath={handleClearPath}
         path={path}
         pathInstructions={pathInstructions}
+        navigationSteps={navigationSteps}
+        draftSteps={draftSteps}
+        instructionSource={instructionSource}
+        playbackStepIndex={viewMode === '3D' ? playbackStepIndex : null}
+        selectedStepIndex={selectedStepIndex}
+        onSelectStep={handleSelectStep}
         isGeneratingInstructions={isGeneratingInstructions}
         viewMode={viewMode}
         selectedLevelId={selectedLevelId}
         setSelectedLevelId={setSelectedLevelId}
         pathDistance={pathDistance}
+        pathDuration={pathDuration}
+        detourNotes={detourNotes}
+        detourExtraTime={detourExtraTime}
+        alternatives={alternatives.map(a => a.summary)}
+        selectedAlternative={selectedAlternative}
+        onSelectAlternative={handleSelectAlternative}
+        onHighlightAlternative={handleHighlightAlternative}
+        graphProgress={graphProgress}
+        routingProgress={routingProgress}
         activeDatasetName={activeDatasetName}
       />
       <div className="flex-1 relative flex flex-col">
@@ -126,9 +431,17 @@ const MapPage: React.FC<MapPageProps> = ({ campusData, mapOrigin, activeDatasetN
             waypoints={waypoints}
             startUnitId={startUnit}
             endUnitId={endUnit}
+            stopUnitIds={stops}
             selectedLevelId={selectedLevelId}
             showProject={showProject}
             mapOrigin={mapOrigin}
+            evacuationPlan={evacuationPlan}
+            closures={activeClosures}
+            highlightedWaypoints={highlightedWaypoints}
+            onPickPoint={pickTarget ? handlePickPoint : undefined}
+            onSelectUnit={handleSelectUnit}
+            onSelectLevel={setSelectedLevelId}
+            focusedStep={selectedStep}
           />
         ) : (
           <MapViewer3D
@@ -137,12 +450,35 @@ const MapPage: React.FC<MapPageProps> = ({ campusData, mapOrigin, activeDatasetN
             waypoints={waypoints}
             startUnitId={startUnit}
             endUnitId={endUnit}
+            stopUnitIds={stops}
             basemapType={'satellite'}
             showProject={showProject}
             mapOrigin={mapOrigin}
+            closures={activeClosures}
+            highlightedWaypoints={highlightedWaypoints}
+            onPickPoint={pickTarget ? handlePickPoint : undefined}
+            onSelectUnit={handleSelectUnit}
+            playbackStops={playbackStops}
+            onPlaybackStep={setPlaybackStepIndex}
+            focusedStep={selectedStep}
+          />
+        )}
+        {evacuationMode && (
+          <EvacuationPanel
+            data={campusData}
+            plan={evacuationPlan}
+            blockedExitIds={blockedExitIds}
+            onSetExitBlocked={userRole === 'admin' ? onSetExitBlocked : undefined}
           />
         )}
         <div className="absolute top-4 right-4 z-10 flex items-center space-x-2">
+          <button
+            onClick={() => setEvacuationMode(prev => !prev)}
+            className={`backdrop-blur-sm px-3 py-2 rounded-full text-white text-sm font-medium transition-colors ${evacuationMode ? 'bg-red-600 hover:bg-red-500' : 'bg-gray-800/80 hover:bg-red-600'}`}
+            aria-pressed={evacuationMode}
+          >
+            Evacuation
+          </button>
           <div className="bg-gray-800/80 backdrop-blur-sm p-2 rounded-full text-white flex items-center space-x-2 text-sm">
             <span className="font-medium px-1">Project</span>
             <button
@@ -0,0 +1,127 @@
+/**
+ * Routing benchmark harness.
+ *
+ * Builds the navigation graph for `public/samples/sample.json` and for a synthetic
+ * large campus, then times random path queries with the A* router. A reference
+ * linear-scan Dijkstra (the previous `useGraph.getPath` implementation) is run on a
+ * subset of the queries to check that both return paths of identical cost.
+ *
+ * Usage: npm run bench -- [levels] [segmentsPerLevel] [queries]
+ */
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import type { CampusData, NavigationGraph, RouteQuery } from '../types';
+import { ROUTING_PROFILES } from '../constants';
+import { generateNavigationGraph } from '../services/graphGenerator';
+import { createRoutingContext, findPath, isEdgeAllowed, type RoutingContext } from '../services/pathfinder';
+import { generateSyntheticCampus } from './syntheticCampus';
+
+const REFERENCE_QUERY_LIMIT = 20;
+
+/** Small deterministic PRNG so runs are comparable. */
+const mulberry32 = (seed: number) => () => {
+    seed |= 0;
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** The O(V²) Dijkstra that `useGraph.getPath` used before the A* router. */
+const linearScanDijkstra = (ctx: RoutingContext, query: RouteQuery): number => {
+    const { startId, endId } = query;
+    const distances = new Map<string, number>();
+    const queue = new Set<string>();
+    ctx.graph.nodes.forEach(node => {
+        distances.set(node.id, Infinity);
+        queue.add(node.id);
+    });
+    distances.set(startId, 0);
+
+    while (queue.size > 0) {
+        let u: string | null = null;
+        let minDist = Infinity;
+        for (const id of queue) {
+            const d = distances.get(id)!;
+            if (d < minDist) {
+                minDist = d;
+                u = id;
+            }
+        }
+        if (u === null || u === endId || minDist === Infinity) break;
+        queue.delete(u);
+
+        for (const edge of ctx.graph.edges[u] || []) {
+            if (!queue.has(edge.to) || !isEdgeAllowed(ctx, edge, query)) continue;
+            const alt = minDist + edge.weight;
+            if (alt < distances.get(edge.to)!) distances.set(edge.to, alt);
+        }
+    }
+    return distances.get(endId) ?? Infinity;
+};
+
+const pathCost = (graph: NavigationGraph, nodePath: string[] | null): number => {
+    if (!nodePath) return Infinity;
+    let cost = 0;
+    for (let i = 0; i < nodePath.length - 1; i++) {
+        const edge = graph.edges[nodePath[i]].find(e => e.to === nodePath[i + 1]);
+        cost += edge ? edge.weight : Infinity;
+    }
+    return cost;
+};
+
+const time = <T>(fn: () => T): { result: T; ms: number } => {
+    const start = performance.now();
+    const result = fn();
+    return { result, ms: performance.now() - start };
+};
+
+const runBenchmark = (label: string, data: CampusData, queryCount: number) => {
+    console.log(`\n=== ${label}: ${data.units.length} units, ${data.levels.length} levels ===`);
+
+    const build = time(() => generateNavigationGraph(data));
+    const graph = build.result;
+    const edgeCount = Object.values(graph.edges).reduce((sum, list) => sum + list.length, 0);
+    console.log(`graph build:       ${build.ms.toFixed(1)} ms (${graph.nodes.length} nodes, ${edgeCount} directed edges)`);
+
+    const ctx = createRoutingContext(graph, data.levels);
+    const centers = graph.nodes.filter(n => n.type === 'center').map(n => n.id);
+    const random = mulberry32(42);
+    const pick = () => centers[Math.floor(random() * centers.length)];
+    const queries = Array.from({ length: queryCount }, () => [pick(), pick()] as const);
+
+    for (const metric of ['distance', 'time'] as const) {
+        for (const profile of Object.values(ROUTING_PROFILES)) {
+            let totalMs = 0;
+            let worstMs = 0;
+            let found = 0;
+            for (const [from, to] of queries) {
+                const { result, ms } = time(() => findPath(ctx, { startId: from, endId: to, profile, metric, allowedAccess: ['public'] }));
+                totalMs += ms;
+                worstMs = Math.max(worstMs, ms);
+                if (result) found++;
+            }
+            const label = `${profile.id}/${metric}`;
+            console.log(`A* ${label.padEnd(21)} avg ${(totalMs / queries.length).toFixed(3)} ms, worst ${worstMs.toFixed(3)} ms, ${found}/${queries.length} routable`);
+        }
+    }
+
+    let referenceMs = 0;
+    let mismatches = 0;
+    const referenceQueries = queries.slice(0, REFERENCE_QUERY_LIMIT);
+    for (const [from, to] of referenceQueries) {
+        const query: RouteQuery = { startId: from, endId: to, profile: ROUTING_PROFILES.standard, metric: 'distance', allowedAccess: ['public'] };
+        const { result: expected, ms } = time(() => linearScanDijkstra(ctx, query));
+        referenceMs += ms;
+        const actual = pathCost(graph, findPath(ctx, query)?.path ?? null);
+        if (Math.abs(actual - expected) > 1e-9 && !(actual === Infinity && expected === Infinity)) mismatches++;
+    }
+    console.log(`reference Dijkstra avg ${(referenceMs / referenceQueries.length).toFixed(3)} ms over ${referenceQueries.length} queries, ${mismatches} cost mismatches`);
+    if (mismatches > 0) process.exitCode = 1;
+};
+
+const [levels = 10, segments = 133, queryCount = 200] = process.argv.slice(2).map(Number);
+
+const sample = JSON.parse(readFileSync(fileURLToPath(new URL('../public/samples/sample.json', import.meta.url)), 'utf-8')) as CampusData;
+runBenchmark('sample.json', sample, queryCount);
+runBenchmark('synthetic campus', generateSyntheticCampus(levels, segments), queryCount);
@@ -0,0 +1,134 @@
+/**
+ * Checks streamed navigation instructions end to end against the mock Ollama server.
+ *
+ * Routes across two floors of a small synthetic campus and asks
+ * `navigationService.generateInstructions` for directions while `scripts/mockOllama.ts`
+ * streams the reply: drafts must grow towards the final steps, NDJSON lines split across
+ * reads and escape sequences cut off between chunks must not leak into them, steps that
+ * cover the outline wrongly must fall back to the outline, and cancelling must reject
+ * with an AbortError. Exits with code 1 when a check fails.
+ *
+ * Usage: npm run check-instructions -- [firstPort]
+ */
+import assert from 'assert/strict';
+import type { Server } from 'http';
+import type { CampusData, NavigationStep, Waypoint } from '../types';
+import { ROUTING_PROFILES } from '../constants';
+import { generateNavigationGraph } from '../services/graphGenerator';
+import { createRoutingContext, findPath } from '../services/pathfinder';
+import { buildPathWaypoints } from '../services/pathGeometry';
+import { generateRuleBasedSteps } from '../services/instructionGenerator';
+import { navigationService, type GeneratedInstructions } from '../services/navigationService';
+import { detectCoordinateSystem } from '../utils/coordinateSystem';
+import { startMockOllama, type MockOllamaOptions } from './mockOllama';
+import { generateSyntheticCampus } from './syntheticCampus';
+
+// Each check gets a mock on a port of its own: fetch keeps connections alive, and one
+// to a server closed by an earlier check would make Ollama look unavailable
+const firstPort = Number(process.argv[2] ?? 11501);
+let port = firstPort - 1;
+
+// The service calls Ollama through the Vite proxy path; send those calls to the current mock
+const nodeFetch = globalThis.fetch;
+globalThis.fetch = (input, init) =>
+    nodeFetch(typeof input === 'string' ? input.replace(/^\/ollama-api/, `http://localhost:${port}`) : input, init);
+
+const data: CampusData = generateSyntheticCampus(2, 4);
+const ctx = createRoutingContext(generateNavigationGraph(data), data.levels);
+const route = findPath(ctx, { startId: 'LVL-0-N-1', endId: 'LVL-1-S-2', profile: ROUTING_PROFILES.standard, metric: 'distance', allowedAccess: ['public'] });
+if (!route) throw new Error('The synthetic campus has no route to check instructions on');
+const waypoints: Waypoint[] = buildPathWaypoints(route.path, ctx.nodeMap, new Map(data.units.map(u => [u.id, u])));
+const outline: NavigationStep[] = generateRuleBasedSteps(waypoints, data, detectCoordinateSystem(data.units.flatMap(u => u.polygon)));
+
+const withMock = async <T>(options: Omit<MockOllamaOptions, 'port'>, run: () => Promise<T>): Promise<T> => {
+    const server: Server = await startMockOllama({ port: ++port, ...options });
+    try {
+        return await run();
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+};
+
+const generate = async (options: Omit<MockOllamaOptions, 'port'>) => {
+    const drafts: string[][] = [];
+    const result = await withMock(options, () =>
+        navigationService.generateInstructions(route.path, waypoints, data, { onDraft: texts => drafts.push(texts) }));
+    return { result, drafts };
+};
+
+/** Asserts the model's steps were used, and that every draft was on its way to them. */
+const assertStreamed = (result: GeneratedInstructions, drafts: string[][], expectedTexts: string[]) => {
+    assert.equal(result.source, 'ollama');
+    assert.deepEqual(result.steps.map(step => step.text), expectedTexts);
+    assert.deepEqual(result.steps.map(step => [step.fromIndex, step.toIndex]), outline.map(step => [step.fromIndex, step.toIndex]));
+    assert.ok(drafts.length > 1, `expected several drafts, got ${drafts.length}`);
+    drafts.forEach((texts, i) => {
+        assert.ok(texts.length <= expectedTexts.length, `draft ${i} has ${texts.length} steps`);
+        texts.forEach((text, k) => assert.ok(expectedTexts[k].startsWith(text), `draft ${i} step ${k + 1} is not on its way: ${JSON.stringify(text)}`));
+        if (i > 0) assert.ok(texts.join('\n').length >= drafts[i - 1].join('\n').length, `draft ${i} is shorter than the one before`);
+    });
+    assert.deepEqual(drafts[drafts.length - 1], expectedTexts);
+};
+
+const outlineTexts = outline.map(step => step.text);
+
+const checks: [string, () => Promise<void>][] = [
+    ['streams drafts towards the model steps', async () => {
+        const { result, drafts } = await generate({ msPerChunk: 1 });
+        assertStreamed(result, drafts, outlineTexts);
+    }],
+    ['reads NDJSON lines split across reads', async () => {
+        const { result, drafts } = await generate({ msPerChunk: 1, splitLines: true });
+        assertStreamed(result, drafts, outlineTexts);
+    }],
+    ['leaves escape sequences cut off between chunks out of drafts', async () => {
+        const decorate = (text: string) => `${text} "Café" — ✓`;
+        const { result, drafts } = await generate({
+            msPerChunk: 0,
+            chunkLength: 1,
+            escapeNonAscii: true,
+            rewriteSteps: steps => steps.map(step => ({ ...step, text: decorate(step.text) })),
+        });
+        assertStreamed(result, drafts, outlineTexts.map(decorate));
+        drafts.forEach(texts => texts.forEach(text => assert.ok(!text.includes('\\'), `draft with an escape: ${JSON.stringify(text)}`)));
+    }],
+    ['falls back to the outline when a step is left out', async () => {
+        const { result, drafts } = await generate({ msPerChunk: 0, rewriteSteps: steps => steps.filter((_, i) => i !== 1) });
+        assert.ok(drafts.length > 0, 'the mock never replied');
+        assert.equal(result.source, 'rules');
+        assert.deepEqual(result.steps, outline);
+    }],
+    ['falls back to the outline when steps overlap', async () => {
+        const { result, drafts } = await generate({ msPerChunk: 0, rewriteSteps: steps => steps.map((step, i) => i === 1 ? { ...step, fromStep: 1 } : step) });
+        assert.ok(drafts.length > 0, 'the mock never replied');
+        assert.equal(result.source, 'rules');
+        assert.deepEqual(result.steps, outline);
+    }],
+    ['rejects with an AbortError when cancelled mid-reply', async () => {
+        const controller = new AbortController();
+        let drafts = 0;
+        await withMock({ msPerChunk: 10 }, () => assert.rejects(
+            navigationService.generateInstructions(route.path, waypoints, data, {
+                signal: controller.signal,
+                onDraft: () => {
+                    if (++drafts === 3) controller.abort();
+                },
+            }),
+            (error: unknown) => error instanceof Error && error.name === 'AbortError',
+        ));
+        assert.equal(drafts, 3);
+    }],
+];
+
+console.log(`Route over ${outline.length} outline steps, mock Ollama from port ${firstPort}`);
+assert.ok(outline.length > 2, 'the route needs at least three outline steps');
+for (const [name, run] of checks) {
+    try {
+        await run();
+        console.log(`ok    ${name}`);
+    } catch (error) {
+        console.log(`FAIL  ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Stand-in for a local Ollama server, to try streamed instructions without a model.
+ *
+ * Listens on Ollama's port, so the Vite proxy reaches it in place of Ollama, and answers
+ * `GET /api/tags` and `POST /api/generate`. A generate reply keeps each outline step of
+ * the prompt as one step, in the JSON the app asks for, streamed as NDJSON a few
+ * characters at a time. A client that goes away mid-reply (a cancelled route) is logged.
+ * `scripts/checkInstructions.ts` starts it with options that make the reply harder to read.
+ *
+ * Usage: npm run mock-ollama -- [port] [msPerChunk]
+ */
+import { createServer, type Server, type ServerResponse } from 'http';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL = 'llama3.2';
+// Outline lines in the prompt, e.g. "3. [left] Turn left into Corridor L1 and walk 31 m."
+const OUTLINE_LINE = /^(\d+)\. \[([a-z-]+)\] (.*)$/;
+
+export interface MockStep {
+    text: string;
+    maneuver: string;
+    fromStep: number;
+    toStep: number;
+}
+
+export interface MockOllamaOptions {
+    port: number;
+    msPerChunk: number;
+    /** Characters of the reply per NDJSON line. */
+    chunkLength?: number;
+    /** Writes every NDJSON line in two halves, so lines arrive split across reads. */
+    splitLines?: boolean;
+    /** Writes characters outside ASCII as \u escapes, as Go's JSON encoder does for some. */
+    escapeNonAscii?: boolean;
+    /** Changes the steps before they are sent, e.g. to cover the outline wrongly. */
+    rewriteSteps?: (steps: MockStep[]) => MockStep[];
+    /** Logs requests and replies to the console. */
+    verbose?: boolean;
+}
+
+const buildSteps = (prompt: string): MockStep[] =>
+    prompt.split('\n').flatMap(line => {
+        const match = OUTLINE_LINE.exec(line.trim());
+        if (!match) return [];
+        const [, number, maneuver, text] = match;
+        return [{ text, maneuver, fromStep: Number(number), toStep: Number(number) }];
+    });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Starts the mock server; resolves once it is listening. */
+export const startMockOllama = (options: MockOllamaOptions): Promise<Server> => {
+    const { port, msPerChunk, chunkLength = 6, splitLines = false, escapeNonAscii = false, rewriteSteps, verbose = false } = options;
+    const log = (message: string) => {
+        if (verbose) console.log(message);
+    };
+
+    const buildReply = (prompt: string): string => {
+        const steps = buildSteps(prompt);
+        const json = JSON.stringify({ steps: rewriteSteps ? rewriteSteps(steps) : steps });
+        return escapeNonAscii
+            ? json.replace(/[^\x20-\x7e]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`)
+            : json;
+    };
+
+    const streamReply = async (res: ServerResponse, reply: string) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        for (let i = 0; i < reply.length; i += chunkLength) {
+            await wait(msPerChunk);
+            if (res.destroyed) {
+                log(`client went away after ${i} of ${reply.length} characters`);
+                return;
+            }
+            const line = `${JSON.stringify({ model: MODEL, created_at: new Date().toISOString(), response: reply.slice(i, i + chunkLength), done: false })}\n`;
+            if (splitLines) {
+                res.write(line.slice(0, line.length / 2));
+                await wait(msPerChunk);
+                if (res.destroyed) return;
+                res.write(line.slice(line.length / 2));
+            } else {
+                res.write(line);
+            }
+        }
+        res.end(`${JSON.stringify({ model: MODEL, created_at: new Date().toISOString(), response: '', done: true, done_reason: 'stop' })}\n`);
+        log(`streamed ${reply.length} characters`);
+    };
+
+    const server = createServer((req, res) => {
+        log(`${req.method} ${req.url}`);
+        if (req.method === 'GET' && req.url === '/api/tags') {
+            sendJson(res, 200, { models: [{ name: `${MODEL}:latest`, model: `${MODEL}:latest` }] });
+            return;
+        }
+        if (req.method !== 'POST' || req.url !== '/api/generate') {
+            sendJson(res, 404, { error: 'not found' });
+            return;
+        }
+
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            let request: { prompt?: string; stream?: boolean };
+            try {
+                request = JSON.parse(body);
+            } catch {
+                sendJson(res, 400, { error: 'invalid JSON' });
+                return;
+            }
+            const reply = buildReply(request.prompt ?? '');
+            // Like Ollama, stream unless asked not to
+            if (request.stream === false) {
+                sendJson(res, 200, { model: MODEL, created_at: new Date().toISOString(), response: reply, done: true });
+            } else {
+                void streamReply(res, reply);
+            }
+        });
+    });
+
+    return new Promise(resolve => server.listen(port, () => resolve(server)));
+};
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    const port = Number(process.argv[2] ?? 11434);
+    const msPerChunk = Number(process.argv[3] ?? 40);
+    startMockOllama({ port, msPerChunk, verbose: true })
+        .then(() => console.log(`Mock Ollama listening on http://localhost:${port}`));
+}
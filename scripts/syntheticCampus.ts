@@ -0,0 +1,76 @@
+import type { CampusData, Detail, Level, Point, Unit } from '../types';
+import { DetailType, UnitType } from '../types';
+
+/**
+ * Generates a large, regular campus for benchmarking the routing stack.
+ *
+ * Every level is a long corridor split into `segmentsPerLevel` pieces, with a room
+ * above and below each piece. A staircase sits at the west end and an elevator at the
+ * east end of every corridor, linked across levels via `verticalConnectorId`. A door
+ * line is placed on every room/corridor and connector/corridor boundary.
+ * Coordinates are planar (1 unit = 1 metre), like `public/samples/sample.json`.
+ */
+export const generateSyntheticCampus = (levelCount: number, segmentsPerLevel: number): CampusData => {
+    const SEGMENT_WIDTH = 10;
+    const CORRIDOR_DEPTH = 4;
+    const ROOM_DEPTH = 10;
+
+    const rect = (x0: number, y0: number, x1: number, y1: number): Point[] => [
+        { x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 },
+    ];
+
+    const totalWidth = segmentsPerLevel * SEGMENT_WIDTH;
+    const footprint = rect(-SEGMENT_WIDTH, -ROOM_DEPTH, totalWidth + SEGMENT_WIDTH, CORRIDOR_DEPTH + ROOM_DEPTH);
+
+    const levels: Level[] = [];
+    const units: Unit[] = [];
+    const details: Detail[] = [];
+
+    const addDoor = (levelId: string, a: Point, b: Point) => {
+        details.push({
+            id: `D-${levelId}-${details.length}`,
+            type: DetailType.DOOR,
+            levelId,
+            line: [a, b],
+            useType: 'Door-A',
+            height: 2.5,
+            datasetId: 0,
+        });
+    };
+
+    for (let z = 0; z < levelCount; z++) {
+        const levelId = `LVL-${z}`;
+        levels.push({ id: levelId, name: `Floor ${z}`, facilityId: 'FAC-1', polygon: footprint, zIndex: z, datasetId: 0 });
+
+        for (let k = 0; k < segmentsPerLevel; k++) {
+            const x0 = k * SEGMENT_WIDTH;
+            const x1 = x0 + SEGMENT_WIDTH;
+            const doorX = x0 + SEGMENT_WIDTH / 2;
+
+            units.push({ id: `${levelId}-COR-${k}`, name: `Corridor ${z}.${k}`, type: UnitType.CORRIDOR, levelId, polygon: rect(x0, 0, x1, CORRIDOR_DEPTH), accessible: true, datasetId: 0 });
+            units.push({ id: `${levelId}-N-${k}`, name: `Room ${z}${String(k).padStart(3, '0')}N`, type: k % 7 === 0 ? UnitType.OFFICE : UnitType.CLASSROOM, levelId, polygon: rect(x0, CORRIDOR_DEPTH, x1, CORRIDOR_DEPTH + ROOM_DEPTH), accessible: true, datasetId: 0 });
+            units.push({ id: `${levelId}-S-${k}`, name: `Room ${z}${String(k).padStart(3, '0')}S`, type: k % 11 === 0 ? UnitType.RESTAURANT : UnitType.OFFICE, levelId, polygon: rect(x0, -ROOM_DEPTH, x1, 0), accessible: true, datasetId: 0 });
+
+            addDoor(levelId, { x: doorX - 0.5, y: CORRIDOR_DEPTH }, { x: doorX + 0.5, y: CORRIDOR_DEPTH });
+            addDoor(levelId, { x: doorX - 0.5, y: 0 }, { x: doorX + 0.5, y: 0 });
+        }
+
+        units.push({ id: `${levelId}-ST`, name: `Stairs ${z}`, type: UnitType.STAIRS, levelId, polygon: rect(-SEGMENT_WIDTH, 0, 0, CORRIDOR_DEPTH), accessible: true, verticalConnectorId: 'VCONN-ST', datasetId: 0 });
+        units.push({ id: `${levelId}-EL`, name: `Elevator ${z}`, type: UnitType.ELEVATOR, levelId, polygon: rect(totalWidth, 0, totalWidth + SEGMENT_WIDTH, CORRIDOR_DEPTH), accessible: true, verticalConnectorId: 'VCONN-EL', datasetId: 0 });
+        addDoor(levelId, { x: 0, y: 1.5 }, { x: 0, y: 2.5 });
+        addDoor(levelId, { x: totalWidth, y: 1.5 }, { x: totalWidth, y: 2.5 });
+    }
+
+    if (levelCount > 0) {
+        units.push({ id: 'ENT', name: 'Main Entrance', type: UnitType.ENTRANCE, levelId: 'LVL-0', polygon: rect(0, -ROOM_DEPTH - 5, SEGMENT_WIDTH, -ROOM_DEPTH), accessible: true, datasetId: 0 });
+        addDoor('LVL-0', { x: 4.5, y: -ROOM_DEPTH }, { x: 5.5, y: -ROOM_DEPTH });
+    }
+
+    return {
+        sites: [{ id: 'SITE-1', name: 'Synthetic Campus', polygon: footprint, datasetId: 0 }],
+        facilities: [{ id: 'FAC-1', name: 'Synthetic Building', polygon: footprint, siteId: 'SITE-1', datasetId: 0 }],
+        levels,
+        units,
+        details,
+    };
+};
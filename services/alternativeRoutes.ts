@@ -0,0 +1,103 @@
+import type { NavGraphEdge, RouteQuery } from '../types';
+import { findPath, getPathCost, type PathSearchResult, type RoutingContext } from './pathfinder';
+
+// Alternatives sharing more than this share of their length with a better route are dropped
+const MAX_OVERLAP = 0.8;
+// Alternatives costing more than this multiple of the best route are not worth offering
+const MAX_STRETCH = 1.5;
+// Yen's algorithm produces paths in cost order, many of them near-duplicates; stop after
+// this many paths per alternative requested, even if fewer distinct ones were found
+const PATHS_PER_ALTERNATIVE = 5;
+
+// Edge lengths of a path, keyed by the unordered node pair
+const getPathEdges = (ctx: RoutingContext, path: string[]): Map<string, number> => {
+    const edges = new Map<string, number>();
+    for (let i = 0; i < path.length - 1; i++) {
+        const edge = ctx.graph.edges[path[i]]?.find(e => e.to === path[i + 1]);
+        edges.set([path[i], path[i + 1]].sort().join('|'), edge?.weight ?? 0);
+    }
+    return edges;
+};
+
+/** Share (0-1) of the shorter path's length that both paths have in common. */
+const getOverlap = (a: Map<string, number>, b: Map<string, number>): number => {
+    const length = (edges: Map<string, number>) => Array.from(edges.values()).reduce((sum, w) => sum + w, 0);
+    const shortest = Math.min(length(a), length(b));
+    if (shortest <= 0) return 1;
+    let shared = 0;
+    a.forEach((weight, key) => { if (b.has(key)) shared += weight; });
+    return shared / shortest;
+};
+
+/**
+ * Up to `k` loopless paths for a query, cheapest first, using Yen's k-shortest paths
+ * algorithm. Paths that mostly overlap a cheaper one (e.g. the same route through the
+ * other door of a room) or cost far more than the best are skipped, so the results are
+ * real alternatives. The first result is the path `findPath` returns.
+ *
+ * `onProgress` receives the share (0-100) of the path budget used.
+ */
+export const findAlternativePaths = (
+    ctx: RoutingContext,
+    query: RouteQuery,
+    k: number,
+    onProgress?: (progress: number) => void
+): PathSearchResult[] => {
+    const best = findPath(ctx, query);
+    if (!best || k <= 0) return [];
+
+    const results = [best];
+    const resultEdges = [getPathEdges(ctx, best.path)];
+    const found = [best]; // Every path produced so far, distinct or not, in cost order
+    const seen = new Set([best.path.join('|')]);
+    const candidates: PathSearchResult[] = [];
+    const pathBudget = k * PATHS_PER_ALTERNATIVE;
+
+    while (results.length < k && found.length < pathBudget) {
+        const previous = found[found.length - 1];
+
+        // Deviate from the previous path at each of its nodes in turn
+        for (let i = 0; i < previous.path.length - 1; i++) {
+            const spurId = previous.path[i];
+            const root = previous.path.slice(0, i + 1);
+
+            // Copy-on-write edge lists: drop the next hops of found paths sharing this root,
+            // and every edge into the root's other nodes so the spur cannot loop back
+            const edges: Record<string, NavGraphEdge[]> = { ...ctx.graph.edges };
+            const removeEdges = (from: string, shouldRemove: (edge: NavGraphEdge) => boolean) => {
+                if (edges[from]) edges[from] = edges[from].filter(edge => !shouldRemove(edge));
+            };
+            found.forEach(({ path }) => {
+                if (path.length > i + 1 && root.every((id, j) => path[j] === id)) {
+                    removeEdges(spurId, edge => edge.to === path[i + 1]);
+                }
+            });
+            root.slice(0, -1).forEach(id => {
+                (ctx.graph.edges[id] || []).forEach(edge => removeEdges(edge.to, e => e.to === id));
+                edges[id] = [];
+            });
+
+            const spur = findPath({ ...ctx, graph: { nodes: ctx.graph.nodes, edges } }, { ...query, startId: spurId });
+            if (!spur) continue;
+            const path = [...root.slice(0, -1), ...spur.path];
+            const key = path.join('|');
+            if (seen.has(key)) continue;
+            seen.add(key);
+            candidates.push({ path, cost: getPathCost(ctx, root, query) + spur.cost });
+        }
+
+        if (candidates.length === 0) break;
+        candidates.sort((a, b) => a.cost - b.cost);
+        const next = candidates.shift()!;
+        if (next.cost > best.cost * MAX_STRETCH) break; // Every later path costs even more
+        found.push(next);
+        onProgress?.((found.length / pathBudget) * 100);
+
+        const nextEdges = getPathEdges(ctx, next.path);
+        if (resultEdges.every(edges => getOverlap(edges, nextEdges) <= MAX_OVERLAP)) {
+            results.push(next);
+            resultEdges.push(nextEdges);
+        }
+    }
+    return results;
+};
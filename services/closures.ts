@@ -0,0 +1,96 @@
+import type { CampusData, Closure, NavGraphEdge, NavigationGraph, ResolvedClosure, RouteDetour, RouteQuery, Unit } from '../types';
+import { findPath, getPathTravelTime, type PathSearchResult, type RoutingContext } from './pathfinder';
+
+/** True when `now` falls inside the closure's time window. */
+export const isClosureActive = (closure: Closure, now: Date): boolean =>
+    new Date(closure.startsAt) <= now && (closure.endsAt === null || now < new Date(closure.endsAt));
+
+/** Units a closure covers; door closures cover none. */
+export const getClosedUnitIds = (closure: Closure, units: Unit[]): string[] => {
+    switch (closure.targetType) {
+        case 'unit': return [closure.targetId];
+        case 'connector': return units.filter(u => u.verticalConnectorId === closure.targetId).map(u => u.id);
+        case 'door': return [];
+    }
+};
+
+/** Human-readable name of what a closure closes, e.g. "Elevator A" or "Door D12 (Floor 1)". */
+export const getClosureTargetName = (closure: Closure, data: CampusData): string => {
+    const levelName = (levelId: string) => data.levels.find(l => l.id === levelId)?.name ?? 'unknown level';
+    switch (closure.targetType) {
+        case 'unit': {
+            const unit = data.units.find(u => u.id === closure.targetId);
+            return unit ? `${unit.name} (${levelName(unit.levelId)})` : closure.targetId;
+        }
+        case 'door': {
+            const door = data.details.find(d => d.id === closure.targetId);
+            return door ? `Door ${door.id} (${levelName(door.levelId)})` : `Door ${closure.targetId}`;
+        }
+        case 'connector': {
+            const unit = data.units.find(u => u.verticalConnectorId === closure.targetId);
+            return unit ? `${unit.name} (all floors)` : closure.targetId;
+        }
+    }
+};
+
+/**
+ * Maps closures onto the nodes of a graph. A closed unit loses its centre node, a closed
+ * door the door nodes on it, and a closed stair/elevator group its floor-to-floor edges.
+ */
+export const resolveClosures = (closures: Closure[], graph: NavigationGraph, units: Unit[]): ResolvedClosure[] =>
+    closures.map(closure => ({
+        closureId: closure.id,
+        nodeIds: closure.targetType === 'door'
+            ? graph.nodes.filter(n => n.detailId === closure.targetId).map(n => n.id)
+            : getClosedUnitIds(closure, units),
+        verticalOnly: closure.targetType === 'connector',
+    }));
+
+const isEdgeClosed = (edge: NavGraphEdge, closure: ResolvedClosure, nodeIds: Set<string>) =>
+    (nodeIds.has(edge.from) || nodeIds.has(edge.to)) && (!closure.verticalOnly || edge.type === 'vertical');
+
+/**
+ * Routing context without the edges the closures remove. The heuristic calibration of
+ * `ctx` stays admissible, as removing edges can only make routes more expensive.
+ */
+export const applyClosures = (ctx: RoutingContext, closures: ResolvedClosure[]): RoutingContext => {
+    if (closures.length === 0) return ctx;
+    const closed = closures.map(closure => ({ closure, nodeIds: new Set(closure.nodeIds) }));
+    const edges: Record<string, NavGraphEdge[]> = {};
+    for (const [from, edgeList] of Object.entries(ctx.graph.edges)) {
+        edges[from] = edgeList.filter(edge => !closed.some(c => isEdgeClosed(edge, c.closure, c.nodeIds)));
+    }
+    return { ...ctx, graph: { nodes: ctx.graph.nodes, edges } };
+};
+
+/**
+ * Explains why a route found with closures applied is slower than the unrestricted one:
+ * returns the closures the unrestricted route would have passed through, or undefined
+ * when the closures made no difference.
+ */
+export const explainDetour = (
+    openCtx: RoutingContext,
+    closures: ResolvedClosure[],
+    query: RouteQuery,
+    result: PathSearchResult
+): RouteDetour | undefined => {
+    if (closures.length === 0) return undefined;
+    const open = findPath(openCtx, query);
+    if (!open || result.cost - open.cost <= 1e-6) return undefined;
+
+    const model = query.profile.travelTime;
+    const extraTravelTime = Math.max(0, getPathTravelTime(openCtx, result.path, model) - getPathTravelTime(openCtx, open.path, model));
+
+    const openEdges: NavGraphEdge[] = [];
+    for (let i = 0; i < open.path.length - 1; i++) {
+        const edge = openCtx.graph.edges[open.path[i]]?.find(e => e.to === open.path[i + 1]);
+        if (edge) openEdges.push(edge);
+    }
+    const closureIds = closures
+        .filter(closure => {
+            const nodeIds = new Set(closure.nodeIds);
+            return openEdges.some(edge => isEdgeClosed(edge, closure, nodeIds));
+        })
+        .map(closure => closure.closureId);
+    return closureIds.length > 0 ? { closureIds, extraTravelTime } : undefined;
+};
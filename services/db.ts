@@ -1,6 +1,7 @@
 
 import initSqlJs, { type Database } from 'sql.js';
-import type { CampusData, Dataset, Facility, Level, Unit, Detail, User, Role, Site } from '../types';
+import type { AccessLevel, CampusData, Closure, ClosureTargetType, Dataset, Facility, Level, Unit, Detail, User, Role, Site, NavigationGraph, NavGraphNode, NavGraphEdge, UnitType } from '../types';
+import { GRAPH_VERSION } from './graphGenerator';
 
 // --- Database Singleton ---
 let db: Database | null = null;
@@ -64,7 +65,8 @@ const createTables = () => {
             createdAt TEXT NOT NULL,
             isActive BOOLEAN NOT NULL,
             originLat REAL,
-            originLon REAL
+            originLon REAL,
+            graphVersion INTEGER
         );
         CREATE TABLE IF NOT EXISTS users (
             username TEXT PRIMARY KEY,
@@ -116,9 +118,72 @@ const createTables = () => {
             height REAL,
             PRIMARY KEY (id, datasetId)
         );
+        CREATE TABLE IF NOT EXISTS nav_nodes (
+            id TEXT,
+            datasetId INTEGER,
+            type TEXT,
+            x REAL,
+            y REAL,
+            levelId TEXT,
+            originalUnitId TEXT,
+            unitType TEXT,
+            accessible BOOLEAN,
+            access TEXT,
+            detailId TEXT,
+            PRIMARY KEY (id, datasetId)
+        );
+        CREATE TABLE IF NOT EXISTS nav_edges (
+            datasetId INTEGER,
+            fromId TEXT,
+            toId TEXT,
+            weight REAL,
+            type TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_nav_edges_dataset ON nav_edges (datasetId);
+        CREATE TABLE IF NOT EXISTS blocked_exits (
+            datasetId INTEGER,
+            unitId TEXT,
+            PRIMARY KEY (datasetId, unitId)
+        );
+        CREATE TABLE IF NOT EXISTS closures (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            datasetId INTEGER,
+            targetType TEXT,
+            targetId TEXT,
+            reason TEXT,
+            startsAt TEXT,
+            endsAt TEXT
+        );
     `);
 };
 
+/**
+ * Replaces the stored navigation graph of a dataset and stamps it with GRAPH_VERSION.
+ * Does not open a transaction; addDataset and saveNavigationGraph run it inside theirs.
+ */
+const writeNavigationGraph = (datasetId: number, graph: NavigationGraph) => {
+    if (!db) return;
+    db.exec(`DELETE FROM nav_nodes WHERE datasetId = ${datasetId}`);
+    db.exec(`DELETE FROM nav_edges WHERE datasetId = ${datasetId}`);
+
+    const insertNode = db.prepare("INSERT INTO nav_nodes (id, datasetId, type, x, y, levelId, originalUnitId, unitType, accessible, access, detailId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    graph.nodes.forEach(n => insertNode.run([
+        n.id, datasetId, n.type, n.point.x, n.point.y, n.levelId, n.originalUnitId, n.unitType ?? null,
+        n.accessible === undefined ? null : n.accessible ? 1 : 0,
+        n.access ?? null,
+        n.detailId ?? null,
+    ]));
+    insertNode.free();
+
+    const insertEdge = db.prepare("INSERT INTO nav_edges (datasetId, fromId, toId, weight, type) VALUES (?, ?, ?, ?, ?)");
+    Object.values(graph.edges).forEach(edgeList => {
+        edgeList.forEach(e => insertEdge.run([datasetId, e.from, e.to, e.weight, e.type]));
+    });
+    insertEdge.free();
+
+    db.exec(`UPDATE datasets SET graphVersion = ${GRAPH_VERSION} WHERE id = ${datasetId}`);
+};
+
 const seedDatabase = () => {
     if (!db) return;
     // Seed users
@@ -157,6 +222,22 @@ export const dbService = {
                     if (!columns.includes('originLon')) {
                         db.exec("ALTER TABLE datasets ADD COLUMN originLon REAL;");
                     }
+                    if (!columns.includes('graphVersion')) {
+                        db.exec("ALTER TABLE datasets ADD COLUMN graphVersion INTEGER;");
+                    }
+                }
+                const navNodesInfoRes = db.exec("PRAGMA table_info(nav_nodes)");
+                if (navNodesInfoRes.length > 0) {
+                    const columns = navNodesInfoRes[0].values.map(row => row[1] as string);
+                    if (!columns.includes('accessible')) {
+                        db.exec("ALTER TABLE nav_nodes ADD COLUMN accessible BOOLEAN;");
+                    }
+                    if (!columns.includes('access')) {
+                        db.exec("ALTER TABLE nav_nodes ADD COLUMN access TEXT;");
+                    }
+                    if (!columns.includes('detailId')) {
+                        db.exec("ALTER TABLE nav_nodes ADD COLUMN detailId TEXT;");
+                    }
                 }
             } catch (e) { console.error("Error during DB migration", e); }
         } else {
@@ -187,6 +268,23 @@ export const dbService = {
         return null;
     },
 
+    async getUsers(): Promise<User[]> {
+        if (!db) throw new Error("DB not initialized");
+        return objectify(db.prepare("SELECT username, role FROM users ORDER BY username")).map(u => ({
+            name: u.username as string,
+            role: u.role as Role,
+        }));
+    },
+
+    /** Changes a user's role, e.g. to grant staff access to restricted spaces. */
+    async setUserRole(username: string, role: Role): Promise<void> {
+        if (!db) throw new Error("DB not initialized");
+        const stmt = db.prepare("UPDATE users SET role = ? WHERE username = ?");
+        stmt.run([role, username]);
+        stmt.free();
+        await this.save();
+    },
+
     async getCampusDataForId(datasetId: number): Promise<CampusData> {
         if (!db) throw new Error("DB not initialized");
         const sites = objectify(db.prepare(`SELECT * FROM sites WHERE datasetId = ${datasetId}`)).map(s => ({ ...s, polygon: JSON.parse(s.polygon as string) })) as Site[];
@@ -221,7 +319,9 @@ export const dbService = {
         data: CampusData,
         isActive: boolean = false,
         onProgress?: (progress: number) => void,
-        mapOrigin?: { lat: number; lon: number }
+        mapOrigin?: { lat: number; lon: number },
+        // Built beforehand in the routing worker; without it the graph is built on first load
+        graph?: NavigationGraph
     ): Promise<void> {
         if (!db) throw new Error("DB not initialized");
         onProgress?.(0);
@@ -275,6 +375,9 @@ export const dbService = {
             itemsProcessed += (data.details?.length || 0);
             if (totalItems > 0) onProgress?.((itemsProcessed / totalItems) * 100);
 
+            // Stored with the data so switching to this dataset doesn't rebuild it
+            if (graph) writeNavigationGraph(datasetId, graph);
+
             db.exec("COMMIT;");
         } catch (e) {
             console.error("Error during dataset insertion transaction, rolling back.", e);
@@ -286,6 +389,95 @@ export const dbService = {
         await this.save();
     },
 
+    /**
+     * Returns the precomputed navigation graph of a dataset, or null when it was never
+     * computed or is stamped with an older GRAPH_VERSION. The routing worker then builds
+     * it, and the result is stored with saveNavigationGraph.
+     */
+    async getNavigationGraph(datasetId: number): Promise<NavigationGraph | null> {
+        if (!db) throw new Error("DB not initialized");
+        const dataset = objectify(db.prepare(`SELECT graphVersion FROM datasets WHERE id = ${datasetId}`))[0];
+        if (!dataset) throw new Error(`Dataset ${datasetId} not found`);
+        if (dataset.graphVersion !== GRAPH_VERSION) return null;
+
+        const nodes = objectify(db.prepare(`SELECT * FROM nav_nodes WHERE datasetId = ${datasetId}`)).map(n => ({
+            id: n.id as string,
+            type: n.type as NavGraphNode['type'],
+            point: { x: n.x as number, y: n.y as number },
+            levelId: n.levelId as string,
+            originalUnitId: n.originalUnitId as string,
+            unitType: (n.unitType as UnitType | null) ?? undefined,
+            accessible: n.accessible === null ? undefined : n.accessible !== 0,
+            access: (n.access as AccessLevel | null) ?? undefined,
+            detailId: (n.detailId as string | null) ?? undefined,
+        }));
+        const edges: Record<string, NavGraphEdge[]> = {};
+        objectify(db.prepare(`SELECT * FROM nav_edges WHERE datasetId = ${datasetId}`)).forEach(e => {
+            const from = e.fromId as string;
+            if (!edges[from]) edges[from] = [];
+            edges[from].push({ from, to: e.toId as string, weight: e.weight as number, type: e.type as NavGraphEdge['type'] });
+        });
+        return { nodes, edges };
+    },
+
+    /** Stores a navigation graph built for a dataset, so it is not built again next time. */
+    async saveNavigationGraph(datasetId: number, graph: NavigationGraph): Promise<void> {
+        if (!db) throw new Error("DB not initialized");
+        db.exec("BEGIN TRANSACTION;");
+        try {
+            writeNavigationGraph(datasetId, graph);
+            db.exec("COMMIT;");
+        } catch (e) {
+            console.error("Error while storing navigation graph, rolling back.", e);
+            db.exec("ROLLBACK;");
+            throw e;
+        }
+        await this.save();
+    },
+
+    /** Ids of the exits marked as blocked for evacuation planning. */
+    async getBlockedExits(datasetId: number): Promise<string[]> {
+        if (!db) throw new Error("DB not initialized");
+        return objectify(db.prepare(`SELECT unitId FROM blocked_exits WHERE datasetId = ${datasetId}`)).map(r => r.unitId as string);
+    },
+
+    async setExitBlocked(datasetId: number, unitId: string, blocked: boolean): Promise<void> {
+        if (!db) throw new Error("DB not initialized");
+        const stmt = db.prepare(blocked
+            ? "INSERT OR IGNORE INTO blocked_exits (datasetId, unitId) VALUES (?, ?)"
+            : "DELETE FROM blocked_exits WHERE datasetId = ? AND unitId = ?");
+        stmt.run([datasetId, unitId]);
+        stmt.free();
+        await this.save();
+    },
+
+    /** Every closure of a dataset, past and future included, soonest first. */
+    async getClosures(datasetId: number): Promise<Closure[]> {
+        if (!db) throw new Error("DB not initialized");
+        return objectify(db.prepare(`SELECT * FROM closures WHERE datasetId = ${datasetId} ORDER BY startsAt`)).map(c => ({
+            id: c.id as number,
+            targetType: c.targetType as ClosureTargetType,
+            targetId: c.targetId as string,
+            reason: c.reason as string,
+            startsAt: c.startsAt as string,
+            endsAt: (c.endsAt as string | null) ?? null,
+        }));
+    },
+
+    async addClosure(datasetId: number, closure: Omit<Closure, 'id'>): Promise<void> {
+        if (!db) throw new Error("DB not initialized");
+        const stmt = db.prepare("INSERT INTO closures (datasetId, targetType, targetId, reason, startsAt, endsAt) VALUES (?, ?, ?, ?, ?, ?)");
+        stmt.run([datasetId, closure.targetType, closure.targetId, closure.reason, closure.startsAt, closure.endsAt]);
+        stmt.free();
+        await this.save();
+    },
+
+    async deleteClosure(id: number): Promise<void> {
+        if (!db) throw new Error("DB not initialized");
+        db.exec(`DELETE FROM closures WHERE id = ${id}`);
+        await this.save();
+    },
+
     async deleteDataset(id: number): Promise<void> {
         if (!db) throw new Error("DB not initialized");
 
@@ -305,7 +497,7 @@ export const dbService = {
                 }
             }
 
-            const tables = ['sites', 'facilities', 'levels', 'units', 'details'];
+            const tables = ['sites', 'facilities', 'levels', 'units', 'details', 'nav_nodes', 'nav_edges', 'blocked_exits', 'closures'];
             for (const table of tables) {
                 db.exec(`DELETE FROM ${table} WHERE datasetId = ${id}`);
             }
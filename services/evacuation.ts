@@ -0,0 +1,118 @@
+import type { CampusData, EvacuationPlan, EvacuationRoute, NavGraphNode } from '../types';
+import { UnitType } from '../types';
+import type { RoutingContext } from './pathfinder';
+import { MinHeap } from '../utils/priorityQueue';
+import { DEFAULT_VERTICAL_COST } from '../constants';
+
+/**
+ * Computes the evacuation plan: for every unit, the route to its nearest usable exit
+ * (an ENTRANCE unit that is not blocked).
+ *
+ * This is one multi-source Dijkstra run from all exits at once, i.e. a reverse shortest-path
+ * tree; each node's parent in the tree is its next hop towards safety. Elevators are never
+ * used. Access tags are ignored on purpose: everyone in the building needs a way out,
+ * including people in restricted spaces.
+ */
+export const computeEvacuationPlan = (ctx: RoutingContext, blockedExitIds: string[]): EvacuationPlan => {
+    const blocked = new Set(blockedExitIds);
+    const exits = ctx.graph.nodes.filter(n => n.type === 'center' && n.unitType === UnitType.ENTRANCE && !blocked.has(n.id));
+    const isUsable = (node: NavGraphNode) => node.unitType !== UnitType.ELEVATOR;
+
+    const costs = new Map<string, number>();
+    const distances = new Map<string, number>(); // Metres walked, floors counted at their height
+    const nextHops = new Map<string, string>();
+    const exitOf = new Map<string, string>();
+    const settled = new Set<string>();
+    const open = new MinHeap<string>();
+    exits.forEach(exit => {
+        costs.set(exit.id, 0);
+        distances.set(exit.id, 0);
+        exitOf.set(exit.id, exit.id);
+        open.push(exit.id, 0);
+    });
+
+    while (!open.isEmpty()) {
+        const u = open.pop()!.item;
+        if (settled.has(u)) continue; // Stale heap entry
+        settled.add(u);
+        const nodeU = ctx.nodeMap.get(u)!;
+
+        // The generator adds every edge in both directions with the same weight, so the
+        // edges leaving u also describe the moves from each neighbour towards u.
+        for (const edge of ctx.graph.edges[u] || []) {
+            const neighbour = ctx.nodeMap.get(edge.to);
+            if (!neighbour || settled.has(edge.to) || !isUsable(neighbour)) continue;
+            const alt = costs.get(u)! + edge.weight;
+            if (alt < (costs.get(edge.to) ?? Infinity)) {
+                const floors = Math.abs((ctx.levelZ.get(neighbour.levelId) ?? 0) - (ctx.levelZ.get(nodeU.levelId) ?? 0));
+                const walked = edge.type === 'vertical'
+                    ? ctx.crs.distance(neighbour.point, nodeU.point) + floors * DEFAULT_VERTICAL_COST.floorHeight
+                    : edge.weight;
+                costs.set(edge.to, alt);
+                distances.set(edge.to, distances.get(u)! + walked);
+                nextHops.set(edge.to, u);
+                exitOf.set(edge.to, exitOf.get(u)!);
+                open.push(edge.to, alt);
+            }
+        }
+    }
+
+    const routes: Record<string, EvacuationRoute> = {};
+    ctx.graph.nodes.forEach(node => {
+        if (node.type !== 'center' || !exitOf.has(node.id)) return;
+        const next = nextHops.has(node.id) ? ctx.nodeMap.get(nextHops.get(node.id)!)! : null;
+        routes[node.id] = {
+            unitId: node.id,
+            exitId: exitOf.get(node.id)!,
+            distance: distances.get(node.id)!,
+            next: next && { point: next.point, levelId: next.levelId },
+        };
+    });
+    return { routes, nextHops: Object.fromEntries(nextHops), blockedExitIds };
+};
+
+/** Node ids from a unit to its exit, following the next hops of an evacuation plan. */
+export const getEvacuationPath = (plan: EvacuationPlan, unitId: string): string[] => {
+    if (!plan.routes[unitId]) return [];
+    const path = [unitId];
+    for (let next = plan.nextHops[unitId]; next !== undefined; next = plan.nextHops[next]) path.push(next);
+    return path;
+};
+
+export interface EvacuationSummaryRow {
+    unitName: string;
+    exitName: string;
+    distance: number | null; // null when the unit has no way out
+    via: string; // Stairs taken on the way, if any
+}
+
+export interface EvacuationFloorSummary {
+    levelId: string;
+    levelName: string;
+    rows: EvacuationSummaryRow[];
+}
+
+/** Per-floor table of every unit's exit and egress distance, for the printable summary. Elevators are left out. */
+export const summariseEvacuationPlan = (plan: EvacuationPlan, data: CampusData): EvacuationFloorSummary[] => {
+    const unitNames = new Map(data.units.map(u => [u.id, u.name]));
+    const stairs = new Set(data.units.filter(u => u.type === UnitType.STAIRS).map(u => u.id));
+
+    return [...data.levels].sort((a, b) => a.zIndex - b.zIndex).map(level => ({
+        levelId: level.id,
+        levelName: level.name,
+        rows: data.units
+            .filter(u => u.levelId === level.id && u.type !== UnitType.ELEVATOR)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(unit => {
+                const route = plan.routes[unit.id];
+                if (!route) return { unitName: unit.name, exitName: 'No route', distance: null, via: '' };
+                const stairsUsed = getEvacuationPath(plan, unit.id).filter(id => stairs.has(id));
+                return {
+                    unitName: unit.name,
+                    exitName: unitNames.get(route.exitId) ?? route.exitId,
+                    distance: route.distance,
+                    via: stairsUsed.length > 0 ? unitNames.get(stairsUsed[0]) ?? '' : '',
+                };
+            }),
+    }));
+};
@@ -1,25 +1,93 @@
 
-import type { CampusData, NavigationGraph, NavGraphNode, NavGraphEdge, Unit } from '../types';
+import type { BoundingBox, CampusData, Detail, NavigationGraph, NavGraphNode, NavGraphEdge, Unit, VerticalCostConfig } from '../types';
 import { UnitType, DetailType } from '../types';
-import { getPolygonCenter, findSharedEdge, getEuclideanDistance } from '../utils/geometry';
+import {
+  EPSILON,
+  getInteriorPoint,
+  findSharedEdge,
+  getEuclideanDistance,
+  getBoundingBox,
+  getSegmentOverlapLength,
+  projectPointOnSegment,
+} from '../utils/geometry';
+import { GridIndex } from '../utils/spatialIndex';
+import { detectCoordinateSystem } from '../utils/coordinateSystem';
+import { DEFAULT_VERTICAL_COST } from '../constants';
 import type { Point } from '../types';
 
+/**
+ * Version of the graph generation logic. Graphs persisted in the database are stamped with
+ * it and rebuilt on load when the stamp differs, so bump it whenever the output changes.
+ */
+export const GRAPH_VERSION = 10;
+
+// How far (as a share of the smaller unit's size) a door line may sit from the shared
+// polygon edge and still count as a door in it. Door lines are often drawn on the wall
+// centreline rather than exactly on the unit boundary.
+const DOOR_SNAP_RATIO = 0.05;
+// Share of a shared edge that WALL lines must cover for it to count as closed.
+const WALL_COVERAGE_RATIO = 0.5;
+// Isolated units are only linked to a neighbour closer than this, in metres.
+const FALLBACK_LINK_MAX_DISTANCE = 500;
+
+const getBoxSize = (box: BoundingBox): number => Math.max(box.maxX - box.minX, box.maxY - box.minY);
+
+/**
+ * Returns where a door/opening line crosses a shared edge: the projection of the line's
+ * midpoint onto the edge, or null if the line is further than `tolerance` from the edge
+ * or lies beyond either end of it. Degenerate (single point) lines are supported.
+ */
+const snapLineToEdge = (line: Point[], edge: [Point, Point], tolerance: number): Point | null => {
+  const first = line[0];
+  const last = line[line.length - 1];
+  const midpoint = { x: (first.x + last.x) / 2, y: (first.y + last.y) / 2 };
+  const projection = projectPointOnSegment(midpoint, edge[0], edge[1]);
+  if (projection.distance < EPSILON) return projection.point;
+  const isWithinEdge = projection.t > 0 && projection.t < 1;
+  return isWithinEdge && projection.distance <= tolerance ? projection.point : null;
+};
+
+/** Checks whether WALL lines run along most of a shared edge. */
+const isEdgeWalled = (edge: [Point, Point], details: Detail[], tolerance: number): boolean => {
+  const edgeLength = getEuclideanDistance(edge[0], edge[1]);
+  let covered = 0;
+  for (const wall of details) {
+    if (wall.type !== DetailType.WALL) continue;
+    for (let k = 0; k < wall.line.length - 1; k++) {
+      covered += getSegmentOverlapLength(edge[0], edge[1], wall.line[k], wall.line[k + 1], tolerance);
+    }
+  }
+  return covered >= edgeLength * WALL_COVERAGE_RATIO;
+};
+
 /**
  * Generates a navigation graph using the correct indoor routing logic:
  *
- *  Unit centroid  →  door/opening node (shared edge midpoint)  →  corridor centroid
+ *  Unit centroid  →  door/opening node (on the shared edge)  →  corridor centroid
  *  →  (more corridors / stair / elevator nodes)  →  door/opening node  →  Unit centroid
  *
  * Key design decisions:
- * - All non-RESTRICTED units are traversable (accessible defaults to true in parser).
- * - Rooms (CLASSROOM, OFFICE, etc.) connect to corridors/entrances via a "door node"
- *   placed at the midpoint of the shared polygon edge between them.
- * - Navigable transit spaces (CORRIDOR, ENTRANCE) connect directly centroid-to-centroid.
+ * - Every unit is in the graph. RESTRICTED units get the 'restricted' access tag and are
+ *   only entered by searches for roles allowed into them (see ROLE_ACCESS).
+ * - Adjacent units connect through "door nodes" placed where DOOR detail lines sit on
+ *   their shared polygon edge; edges without a door are only crossed when open.
+ * - Navigable transit spaces (CORRIDOR, ENTRANCE) connect directly centroid-to-centroid
+ *   across open boundaries.
  * - STAIRS and ELEVATORS provide vertical connections between floors via verticalConnectorId.
+ * - Edge weights are in metres whatever the dataset's coordinate system; vertical edges
+ *   add the stair or elevator time of `verticalCost` converted to metres at walking speed,
+ *   but at least the height of the floors climbed.
+ *
+ * `onProgress` receives a percentage (0-100); the same-level adjacency pass dominates the cost.
  */
-export const generateNavigationGraph = (data: CampusData): NavigationGraph => {
+export const generateNavigationGraph = (
+  data: CampusData,
+  onProgress?: (progress: number) => void,
+  verticalCost: VerticalCostConfig = DEFAULT_VERTICAL_COST
+): NavigationGraph => {
   const nodes: NavGraphNode[] = [];
   const edges: Record<string, NavGraphEdge[]> = {};
+  const { distance } = detectCoordinateSystem(data.units.flatMap(u => u.polygon));
 
   const addEdge = (nodeAId: string, nodeBId: string, weight: number, type: 'horizontal' | 'vertical') => {
     if (!edges[nodeAId]) edges[nodeAId] = [];
@@ -28,89 +96,160 @@ export const generateNavigationGraph = (data: CampusData): NavigationGraph => {
     edges[nodeBId].push({ from: nodeBId, to: nodeAId, weight, type });
   };
 
-  // Include ALL non-RESTRICTED units. We do NOT rely on the `accessible` flag because:
-  // 1. The flag defaults to false when the Access shapefile field is absent
-  // 2. Existing DB data has accessible=0 for all units uploaded before the parser fix
-  // Transit spaces (CORRIDOR, ENTRANCE, STAIRS, ELEVATOR) are always traversable.
-  // Destination rooms (CLASSROOM, OFFICE, etc.) are also traversable — they're the endpoints.
-  // Only RESTRICTED spaces are excluded.
-  const traversableUnits = data.units.filter(u => u.type !== UnitType.RESTRICTED);
+  // Include ALL units. Transit spaces (CORRIDOR, ENTRANCE, STAIRS, ELEVATOR) and
+  // destination rooms (CLASSROOM, OFFICE, etc.) are open to everyone; RESTRICTED spaces
+  // (service corridors, labs) are kept with an access tag so that staff can route through
+  // them, and the pathfinder keeps everyone else out.
+  const traversableUnits = data.units;
+
+  // The accessible flag is copied onto centre nodes for routing profiles that require it.
+  // When no unit is flagged at all the data predates the flag, so treat everything as accessible.
+  const hasAccessibilityData = traversableUnits.some(u => u.accessible);
 
   // ── STEP 2: Create a centroid node for every traversable unit ──────────────
+  // The "centroid" is an interior point, so it stays inside L- and U-shaped units.
+  const centers = new Map<string, Point>();
   for (const unit of traversableUnits) {
+    const center = getInteriorPoint(unit.polygon);
+    centers.set(unit.id, center);
     nodes.push({
       id: unit.id,
       type: 'center',
-      point: getPolygonCenter(unit.polygon),
+      point: center,
       levelId: unit.levelId,
       originalUnitId: unit.id,
       unitType: unit.type,
+      accessible: hasAccessibilityData ? unit.accessible !== false : true,
+      access: unit.type === UnitType.RESTRICTED ? 'restricted' : 'public',
     });
   }
 
+  // Group units per level so adjacency and proximity searches never cross floors.
+  const unitsByLevel = new Map<string, Unit[]>();
+  for (const unit of traversableUnits) {
+    if (!unitsByLevel.has(unit.levelId)) unitsByLevel.set(unit.levelId, []);
+    unitsByLevel.get(unit.levelId)!.push(unit);
+  }
+
+  // Door, wall and opening lines per level, indexed so each shared edge only
+  // looks at the detail lines around it.
+  const detailsByLevel = new Map<string, { index: GridIndex<Detail>; hasBoundaryData: boolean }>();
+  const boundaryDetails = (data.details ?? []).filter(d => d.line.length > 0);
+  new Set(boundaryDetails.map(d => d.levelId)).forEach(levelId => {
+    const levelDetails = boundaryDetails.filter(d => d.levelId === levelId);
+    const boxes = levelDetails.map(d => getBoundingBox(d.line));
+    const index = new GridIndex<Detail>(GridIndex.cellSizeFor(boxes));
+    levelDetails.forEach((d, i) => index.insert(d, boxes[i]));
+    detailsByLevel.set(levelId, {
+      index,
+      hasBoundaryData: levelDetails.some(d => d.type === DetailType.DOOR || d.type === DetailType.WALL),
+    });
+  });
+
   // ── STEP 3: Same-level connections ────────────────────────────────────────
-  // For each pair of adjacent units on the same level, create edges.
-  // If both are transit spaces → direct centroid-to-centroid.
-  // If at least one is a room → route via a "door node" on the shared edge.
+  // For each pair of adjacent units on the same level, decide whether people can
+  // cross the shared edge, and where:
+  // - Every DOOR line on or near the shared edge becomes a "door node" on that edge,
+  //   linked to both unit centroids.
+  // - Without a door, the edge is only crossed when the data says it is open: an
+  //   OPENING line lies on it, two transit spaces meet with no WALL along the edge
+  //   (e.g. a corridor split into several polygons), or the level has no door/wall
+  //   data at all (datasets imported without a Details layer). Transit spaces then
+  //   connect centroid-to-centroid; rooms via a node at the shared edge midpoint.
+  // Candidate pairs come from a per-level grid index over unit bounding boxes, so
+  // only units whose bounds touch are tested with the (expensive) findSharedEdge.
   const transitTypes = new Set([
     UnitType.CORRIDOR,
     UnitType.STAIRS,
     UnitType.ELEVATOR,
     UnitType.ENTRANCE,
   ]);
-  for (let i = 0; i < traversableUnits.length; i++) {
-    for (let j = i + 1; j < traversableUnits.length; j++) {
-      const unitA = traversableUnits[i];
-      const unitB = traversableUnits[j];
-
-      if (unitA.levelId !== unitB.levelId) continue;
-
-      const sharedEdge = findSharedEdge(unitA.polygon, unitB.polygon);
-      if (!sharedEdge) continue;
-
-      const centerA = getPolygonCenter(unitA.polygon);
-      const centerB = getPolygonCenter(unitB.polygon);
-
-      const isATransit = transitTypes.has(unitA.type);
-      const isBTransit = transitTypes.has(unitB.type);
-
-      if (isATransit && isBTransit) {
-        // Both are transit spaces: direct centroid connection
-        addEdge(unitA.id, unitB.id, getEuclideanDistance(centerA, centerB), 'horizontal');
-      } else {
-        // At least one is a destination room: route via a door node
-        // The door node sits at the midpoint of the shared polygon edge,
-        // representing the doorway opening between the two spaces.
-        const doorMidpoint: Point = {
-          x: (sharedEdge[0].x + sharedEdge[1].x) / 2,
-          y: (sharedEdge[0].y + sharedEdge[1].y) / 2,
-        };
-
-        // Use a stable, deterministic ID so we don't create duplicate door nodes
-        const doorNodeId = `door-${[unitA.id, unitB.id].sort().join('--')}`;
-
-        if (!nodes.find(n => n.id === doorNodeId)) {
-          nodes.push({
-            id: doorNodeId,
-            type: 'waypoint',
-            point: doorMidpoint,
-            levelId: unitA.levelId,
-            originalUnitId: isATransit ? unitB.id : unitA.id,
-            unitType: undefined,
-          });
+  const doorNodeIds = new Set<string>();
+  // Units that share an edge with some other unit, whether or not it can be crossed
+  const unitsWithNeighbours = new Set<string>();
+
+  // `door` is the DOOR detail the node sits on; openings have none
+  const connectViaDoor = (unitA: Unit, unitB: Unit, doorNodeId: string, doorPoint: Point, door?: Detail) => {
+    if (!doorNodeIds.has(doorNodeId)) {
+      doorNodeIds.add(doorNodeId);
+      nodes.push({
+        id: doorNodeId,
+        type: door ? 'door' : 'waypoint',
+        point: doorPoint,
+        levelId: unitA.levelId,
+        originalUnitId: transitTypes.has(unitA.type) ? unitB.id : unitA.id,
+        unitType: undefined,
+        detailId: door?.id,
+      });
+    }
+    // Unit A centroid → door node → Unit B centroid
+    addEdge(unitA.id, doorNodeId, distance(centers.get(unitA.id)!, doorPoint), 'horizontal');
+    addEdge(doorNodeId, unitB.id, distance(doorPoint, centers.get(unitB.id)!), 'horizontal');
+  };
+
+  let unitsProcessed = 0;
+  onProgress?.(0);
+  unitsByLevel.forEach((levelUnits, levelId) => {
+    const boxes = levelUnits.map(u => getBoundingBox(u.polygon));
+    const index = new GridIndex<number>(GridIndex.cellSizeFor(boxes));
+    boxes.forEach((box, i) => index.insert(i, box));
+    const levelDetails = detailsByLevel.get(levelId);
+
+    for (let i = 0; i < levelUnits.length; i++) {
+      for (const j of index.query(boxes[i])) {
+        if (j <= i) continue; // Each pair is handled once, from its lower index
+        const unitA = levelUnits[i];
+        const unitB = levelUnits[j];
+
+        const sharedEdge = findSharedEdge(unitA.polygon, unitB.polygon);
+        if (!sharedEdge) continue;
+        unitsWithNeighbours.add(unitA.id);
+        unitsWithNeighbours.add(unitB.id);
+
+        // Use stable, deterministic IDs so we don't create duplicate door nodes
+        const pairKey = [unitA.id, unitB.id].sort().join('--');
+        const tolerance = Math.max(EPSILON, DOOR_SNAP_RATIO * Math.min(getBoxSize(boxes[i]), getBoxSize(boxes[j])));
+        const nearbyDetails = levelDetails?.index.query(getBoundingBox(sharedEdge), tolerance) ?? [];
+
+        const doors = nearbyDetails.filter(d => d.type === DetailType.DOOR);
+        let doorCount = 0;
+        for (const door of doors) {
+          const doorPoint = snapLineToEdge(door.line, sharedEdge, tolerance);
+          if (!doorPoint) continue;
+          connectViaDoor(unitA, unitB, `door-${pairKey}--${door.id}`, doorPoint, door);
+          doorCount++;
         }
+        if (doorCount > 0) continue;
 
-        // Unit A centroid → door node
-        addEdge(unitA.id, doorNodeId, getEuclideanDistance(centerA, doorMidpoint), 'horizontal');
-        // Door node → Unit B centroid
-        addEdge(doorNodeId, unitB.id, getEuclideanDistance(doorMidpoint, centerB), 'horizontal');
+        const isATransit = transitTypes.has(unitA.type);
+        const isBTransit = transitTypes.has(unitB.type);
+        const hasOpening = nearbyDetails.some(d => d.type === DetailType.OPENING && snapLineToEdge(d.line, sharedEdge, tolerance));
+        const isWalled = isEdgeWalled(sharedEdge, nearbyDetails, tolerance);
+        const isOpen = !levelDetails?.hasBoundaryData || hasOpening || (isATransit && isBTransit && !isWalled);
+        if (!isOpen) continue;
+
+        if (isATransit && isBTransit) {
+          // Both are transit spaces: direct centroid connection
+          addEdge(unitA.id, unitB.id, distance(centers.get(unitA.id)!, centers.get(unitB.id)!), 'horizontal');
+        } else {
+          // At least one is a destination room: route via a node at the
+          // midpoint of the shared polygon edge, representing the opening.
+          const openingMidpoint: Point = {
+            x: (sharedEdge[0].x + sharedEdge[1].x) / 2,
+            y: (sharedEdge[0].y + sharedEdge[1].y) / 2,
+          };
+          connectViaDoor(unitA, unitB, `door-${pairKey}`, openingMidpoint);
+        }
       }
     }
-  }
+    unitsProcessed += levelUnits.length;
+    if (traversableUnits.length > 0) onProgress?.((unitsProcessed / traversableUnits.length) * 90);
+  });
 
   // ── STEP 4: Vertical connections (Stairs / Elevators) ─────────────────────
-  // Group stair/elevator units by their verticalConnectorId and link them
-  // sequentially floor by floor.
+  // Group stair/elevator units by their verticalConnectorId. Stairs link each floor to the
+  // next; an elevator links straight to every floor it serves, so a ride is one edge and
+  // its wait is charged once.
   const verticalConnectors = new Map<string, Unit[]>();
   traversableUnits.forEach(unit => {
     if ((unit.type === UnitType.STAIRS || unit.type === UnitType.ELEVATOR) && unit.verticalConnectorId) {
@@ -121,43 +260,52 @@ export const generateNavigationGraph = (data: CampusData): NavigationGraph => {
     }
   });
 
+  const levelZ = new Map(data.levels.map(l => [l.id, l.zIndex]));
   verticalConnectors.forEach(units => {
-    const sortedUnits = units.sort((a, b) => {
-      const levelA = data.levels.find(l => l.id === a.levelId)?.zIndex ?? 0;
-      const levelB = data.levels.find(l => l.id === b.levelId)?.zIndex ?? 0;
-      return levelA - levelB;
-    });
+    const sortedUnits = units.sort((a, b) => (levelZ.get(a.levelId) ?? 0) - (levelZ.get(b.levelId) ?? 0));
 
     for (let i = 0; i < sortedUnits.length - 1; i++) {
       const unitA = sortedUnits[i];
-      const unitB = sortedUnits[i + 1];
-      const centerA = getPolygonCenter(unitA.polygon);
-      const centerB = getPolygonCenter(unitB.polygon);
-      // Add a fixed penalty to vertical travel to prefer horizontal routes when possible
-      const weight = getEuclideanDistance(centerA, centerB) + 0.002; // ~220m equivalent penalty
-      addEdge(unitA.id, unitB.id, weight, 'vertical');
+      for (let j = i + 1; j < sortedUnits.length; j++) {
+        const unitB = sortedUnits[j];
+        // Only a shaft that is an elevator on both floors is ridden; anything else is climbed
+        const isRide = unitA.type === UnitType.ELEVATOR && unitB.type === UnitType.ELEVATOR;
+        // Floors further up are only linked by a ride with elevators all the way
+        if (j > i + 1 && !isRide) break;
+        const centerA = centers.get(unitA.id)!;
+        const centerB = centers.get(unitB.id)!;
+        // Travel time between the floors, converted to metres at walking speed but never less
+        // than the height climbed, on top of any horizontal offset between the two shafts
+        const floors = Math.abs((levelZ.get(unitB.levelId) ?? 0) - (levelZ.get(unitA.levelId) ?? 0));
+        const { floorHeight, travelTime } = verticalCost;
+        const seconds = isRide
+          ? travelTime.elevatorWaitSeconds + floors * travelTime.elevatorSecondsPerFloor
+          : floors * travelTime.stairsSecondsPerFloor;
+        const verticalMetres = Math.max(seconds * travelTime.walkingSpeed, floors * floorHeight);
+        addEdge(unitA.id, unitB.id, distance(centerA, centerB) + verticalMetres, 'vertical');
+      }
     }
   });
 
   // ── STEP 5: Fallback proximity connections ─────────────────────────────────
-  // If a traversable unit has NO edges after the shared-edge pass (completely
-  // disconnected), try connecting it to the nearest unit on the same level.
-  // This handles cases where GIS data has gaps/mismatches between adjacent polygons.
-  const unitIds = new Set(traversableUnits.map(u => u.id));
+  // If a traversable unit has NO edges after the shared-edge pass and shares no
+  // edge with any other unit (completely disconnected), try connecting it to the
+  // nearest unit on the same level. This handles cases where GIS data has
+  // gaps/mismatches between adjacent polygons. Units whose shared edges are all
+  // closed (no door, no opening) are left unconnected on purpose.
   const isolatedUnits = traversableUnits.filter(u => {
     const unitEdges = edges[u.id] || [];
-    return unitEdges.length === 0;
+    return unitEdges.length === 0 && !unitsWithNeighbours.has(u.id);
   });
 
   for (const isolated of isolatedUnits) {
-    const isolatedCenter = getPolygonCenter(isolated.polygon);
+    const isolatedCenter = centers.get(isolated.id)!;
     let nearestDist = Infinity;
     let nearestUnit: Unit | null = null;
 
-    for (const candidate of traversableUnits) {
+    for (const candidate of unitsByLevel.get(isolated.levelId) ?? []) {
       if (candidate.id === isolated.id) continue;
-      if (candidate.levelId !== isolated.levelId) continue;
-      const dist = getEuclideanDistance(isolatedCenter, getPolygonCenter(candidate.polygon));
+      const dist = distance(isolatedCenter, centers.get(candidate.id)!);
       if (dist < nearestDist) {
         nearestDist = dist;
         nearestUnit = candidate;
@@ -165,12 +313,13 @@ export const generateNavigationGraph = (data: CampusData): NavigationGraph => {
     }
 
     if (nearestUnit) {
-      // Only connect if within a reasonable proximity (0.005 degrees ≈ 500m)
-      if (nearestDist < 0.005) {
+      // Only connect if within a reasonable proximity
+      if (nearestDist < FALLBACK_LINK_MAX_DISTANCE) {
         addEdge(isolated.id, nearestUnit.id, nearestDist, 'horizontal');
       }
     }
   }
 
+  onProgress?.(100);
   return { nodes, edges };
 };
@@ -0,0 +1,193 @@
+import type { CampusData, Maneuver, NavigationStep, Point, Unit, Waypoint } from '../types';
+import { UnitType } from '../types';
+import type { CoordinateSystem } from '../utils/coordinateSystem';
+import { projectPointOnSegment } from '../utils/geometry';
+import { getLevelTransitions } from './routePlayback';
+
+// Heading changes, in degrees, up to which the route goes straight on, bears slightly or turns
+const STRAIGHT_ANGLE = 25;
+const SLIGHT_TURN_ANGLE = 60;
+const TURN_ANGLE = 150;
+// Legs shorter than this (metres) are too short to give a heading, e.g. across a door
+const MIN_HEADING_DISTANCE = 1;
+// A room within this many metres of a turn is named as its landmark
+const LANDMARK_DISTANCE = 4;
+
+const TURN_WORDS: Partial<Record<Maneuver, string>> = {
+    'slight-left': 'Bear left',
+    'slight-right': 'Bear right',
+    left: 'Turn left',
+    right: 'Turn right',
+    'u-turn': 'Turn around',
+};
+
+// Direction of travel from a to b in radians, anticlockwise from east
+const getHeading = (a: Point, b: Point, crs: CoordinateSystem): number => {
+    // A degree of longitude shrinks towards the poles
+    const xScale = crs.kind === 'geographic' ? Math.cos(a.y * Math.PI / 180) : 1;
+    return Math.atan2(b.y - a.y, (b.x - a.x) * xScale);
+};
+
+const classifyTurn = (before: number, after: number): Maneuver => {
+    let angle = (after - before) * 180 / Math.PI;
+    while (angle > 180) angle -= 360;
+    while (angle <= -180) angle += 360;
+    const size = Math.abs(angle);
+    if (size < STRAIGHT_ANGLE) return 'straight';
+    if (size < SLIGHT_TURN_ANGLE) return angle > 0 ? 'slight-left' : 'slight-right';
+    if (size < TURN_ANGLE) return angle > 0 ? 'left' : 'right';
+    return 'u-turn';
+};
+
+/** The units walked through from one waypoint to another, in order; a waypoint's unit is the one towards the next. */
+const getUnitIds = (waypoints: Waypoint[], fromIndex: number, toIndex: number): string[] => {
+    const unitIds: string[] = [];
+    waypoints.slice(fromIndex, Math.max(toIndex, fromIndex + 1)).forEach(({ unitId }) => {
+        if (unitId && unitId !== unitIds[unitIds.length - 1]) unitIds.push(unitId);
+    });
+    return unitIds;
+};
+
+const formatDistance = (metres: number): string => `${Math.max(1, Math.round(metres))} m`;
+
+/**
+ * Turns a route's waypoints into step-by-step directions without a language model. A step
+ * starts where the route turns, enters a room or ends, and where it takes stairs or an
+ * elevator (named with the floor they lead to). Straight walks through several corridors
+ * are one step, and turns are tied to a nearby room as a landmark.
+ */
+export const generateRuleBasedSteps = (waypoints: Waypoint[], data: CampusData, crs: CoordinateSystem): NavigationStep[] => {
+    if (waypoints.length < 2) return [];
+    const unitMap = new Map(data.units.map(u => [u.id, u]));
+    const levelName = (levelId: string) => data.levels.find(l => l.id === levelId)?.name ?? 'the next level';
+    const unitAt = (index: number): Unit | undefined => unitMap.get(waypoints[index]?.unitId ?? '');
+    const lastIndex = waypoints.length - 1;
+    const destination = unitAt(lastIndex);
+    const transitions = new Map(getLevelTransitions(waypoints).map(t => [t.fromIndex, t]));
+
+    // Headings into and out of waypoint k on its floor, skipping legs too short to tell
+    const headingInto = (k: number): number | null => {
+        for (let i = k - 1; i >= 0 && waypoints[i].levelId === waypoints[k].levelId; i--) {
+            if (crs.distance(waypoints[i].point, waypoints[k].point) >= MIN_HEADING_DISTANCE) return getHeading(waypoints[i].point, waypoints[k].point, crs);
+        }
+        return null;
+    };
+    const headingOutOf = (k: number): number | null => {
+        for (let i = k + 1; i <= lastIndex && waypoints[i].levelId === waypoints[k].levelId; i++) {
+            if (crs.distance(waypoints[k].point, waypoints[i].point) >= MIN_HEADING_DISTANCE) return getHeading(waypoints[k].point, waypoints[i].point, crs);
+        }
+        return null;
+    };
+
+    // The closest named room to a point, other than the ones the route is passing between
+    const findLandmark = (index: number): Unit | null => {
+        const { point, levelId } = waypoints[index];
+        const exclude = new Set([unitAt(index - 1)?.id, unitAt(index)?.id]);
+        let landmark: Unit | null = null;
+        let landmarkDistance = LANDMARK_DISTANCE;
+        for (const unit of data.units) {
+            if (unit.levelId !== levelId || unit.type === UnitType.CORRIDOR || exclude.has(unit.id) || !unit.name) continue;
+            unit.polygon.forEach((corner, i) => {
+                const next = unit.polygon[(i + 1) % unit.polygon.length];
+                const distance = crs.distance(point, projectPointOnSegment(point, corner, next).point);
+                if (distance <= landmarkDistance) {
+                    landmark = unit;
+                    landmarkDistance = distance;
+                }
+            });
+        }
+        return landmark;
+    };
+
+    // A step still being walked, with the corridors it runs along
+    type OpenStep = Omit<NavigationStep, 'text' | 'toIndex' | 'unitIds'> & { action: string; corridorNames: Set<string> };
+    const openStep = (action: string, maneuver: Maneuver, fromIndex: number, levelId: string): OpenStep =>
+        ({ action, maneuver, levelId, fromIndex, distance: 0, corridorNames: new Set() });
+    const steps: NavigationStep[] = [];
+    const closeStep = ({ action, corridorNames, ...step }: OpenStep, toIndex: number) => {
+        let text = action;
+        // Arriving ends with the walk into the destination, which needs no distance
+        if (step.distance >= MIN_HEADING_DISTANCE && step.maneuver !== 'arrive') {
+            const along = corridorNames.size === 1 ? ` along ${[...corridorNames][0]}` : corridorNames.size > 1 ? ' along the corridors' : '';
+            text += `${step.maneuver === 'stairs' || step.maneuver === 'elevator' ? ', then walk' : ' and walk'} ${formatDistance(step.distance)}${along}`;
+        }
+        steps.push({ ...step, text: `${text}.`, toIndex, unitIds: getUnitIds(waypoints, step.fromIndex, toIndex) });
+    };
+
+    // Whether the route rides the stairs or elevator it walks into at waypoint k
+    const takesConnectorAt = (k: number): boolean => {
+        for (let i = k; i < lastIndex && waypoints[i].unitId === waypoints[k].unitId && waypoints[i].levelId === waypoints[k].levelId; i++) {
+            if (transitions.has(i)) return true;
+        }
+        return false;
+    };
+
+    const start = unitAt(0);
+    let current = openStep(start ? `Start in ${start.name} on ${levelName(waypoints[0].levelId)}` : 'Start', 'depart', 0, waypoints[0].levelId);
+    // Turn into the stairs or elevator about to be taken, said together with the ride
+    let connectorEntry: { index: number; turnWords?: string } | null = null;
+    for (let k = 0; k < lastIndex; k++) {
+        const transition = transitions.get(k);
+        if (transition) {
+            const connector = unitAt(k);
+            const maneuver = connector?.type === UnitType.ELEVATOR ? 'elevator' : 'stairs';
+            const fromLevel = data.levels.find(l => l.id === transition.fromLevelId);
+            const toLevel = data.levels.find(l => l.id === transition.toLevelId);
+            const ride = `${fromLevel && toLevel && toLevel.zIndex < fromLevel.zIndex ? 'down' : 'up'} to ${levelName(transition.toLevelId)}`;
+            const connectorName = connector?.name || `the ${maneuver}`;
+            const action = connectorEntry?.turnWords
+                ? `${connectorEntry.turnWords} into ${connectorName} and go ${ride}`
+                : `Take ${connectorName} ${ride}`;
+            if (!connectorEntry) closeStep(current, k);
+            current = openStep(action, maneuver, connectorEntry?.index ?? k, transition.toLevelId);
+            connectorEntry = null;
+            k = transition.toIndex - 1;
+            continue;
+        }
+
+        const leg = unitAt(k);
+        if (k > current.fromIndex) {
+            // Something to say at waypoint k: a turn, a room entered, or the destination reached
+            const previous = unitAt(k - 1);
+            const before = headingInto(k);
+            const after = headingOutOf(k);
+            const turn = before !== null && after !== null ? classifyTurn(before, after) : 'straight';
+            const turnWords = TURN_WORDS[turn];
+            const entered = leg && leg.id !== previous?.id ? leg : null;
+            const isConnector = entered?.type === UnitType.STAIRS || entered?.type === UnitType.ELEVATOR;
+            const entersRoom = !!entered && entered.type !== UnitType.CORRIDOR && !isConnector;
+            if (entered && isConnector && takesConnectorAt(k)) {
+                closeStep(current, k);
+                current = openStep('', turn, k, waypoints[k].levelId);
+                connectorEntry = { index: k, turnWords };
+            } else if (entersRoom && entered.id === destination?.id && waypoints[k].levelId === waypoints[lastIndex].levelId) {
+                closeStep(current, k);
+                current = openStep(turnWords ? `${turnWords} and enter ${entered.name}` : `Enter ${entered.name}`, 'arrive', k, waypoints[k].levelId);
+            } else if (entersRoom) {
+                closeStep(current, k);
+                current = openStep(`${turnWords ? `${turnWords} into` : 'Go through'} ${entered.name}`, turn, k, waypoints[k].levelId);
+            } else if (turnWords) {
+                closeStep(current, k);
+                const landmark = findLandmark(k);
+                const into = entered?.name ? ` into ${entered.name}` : '';
+                current = openStep(`${turnWords}${into}${landmark ? ` at ${landmark.name}` : ''}`, turn, k, waypoints[k].levelId);
+            }
+        }
+        current.distance += crs.distance(waypoints[k].point, waypoints[k + 1].point);
+        if (leg?.type === UnitType.CORRIDOR && leg.name) current.corridorNames.add(leg.name);
+    }
+    closeStep(current, lastIndex);
+    if (current.maneuver !== 'arrive') {
+        const arrival = destination ? `Arrive at ${destination.name}` : 'Arrive at your destination';
+        steps.push({
+            text: `${arrival}.`,
+            maneuver: 'arrive',
+            unitIds: getUnitIds(waypoints, lastIndex, lastIndex),
+            fromIndex: lastIndex,
+            toIndex: lastIndex,
+            levelId: waypoints[lastIndex].levelId,
+            distance: 0,
+        });
+    }
+    return steps;
+};
@@ -1,4 +1,6 @@
-import type { CampusData, Unit } from '../types';
+import type { CampusData, Maneuver, NavigationStep, Unit, Waypoint } from '../types';
+import { detectCoordinateSystem } from '../utils/coordinateSystem';
+import { generateRuleBasedSteps } from './instructionGenerator';
 
 // --- Ollama Configuration ---
 // Calls go through the Vite proxy (/ollama-api → localhost:11434)
@@ -16,33 +18,162 @@ async function isOllamaAvailable(): Promise<boolean> {
     }
 }
 
+const MANEUVERS: Maneuver[] = ['depart', 'straight', 'slight-left', 'slight-right', 'left', 'right', 'u-turn', 'stairs', 'elevator', 'arrive'];
+
+// Ollama constrains the model's output to this JSON schema. The model rewords the measured
+// outline; each of its steps says which outline steps (numbered from 1) it covers.
+const STEPS_SCHEMA = {
+    type: 'object',
+    properties: {
+        steps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    text: { type: 'string' },
+                    maneuver: { type: 'string', enum: MANEUVERS },
+                    fromStep: { type: 'integer' },
+                    toStep: { type: 'integer' },
+                },
+                required: ['text', 'maneuver', 'fromStep', 'toStep'],
+            },
+        },
+    },
+    required: ['steps'],
+};
+
+/**
+ * The model's steps as NavigationSteps, with the waypoints, units, floor and distance of the
+ * outline steps they cover. Null unless they cover the outline in order without gaps, so a
+ * muddled answer falls back to the outline itself.
+ */
+const parseModelSteps = (response: string, outline: NavigationStep[]): NavigationStep[] | null => {
+    let parsed: { steps?: { text?: unknown; maneuver?: unknown; fromStep?: unknown; toStep?: unknown }[] };
+    try {
+        parsed = JSON.parse(response);
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) return null;
+
+    const steps: NavigationStep[] = [];
+    let expectedFrom = 1;
+    for (const item of parsed.steps) {
+        const { text, maneuver, fromStep, toStep } = item;
+        if (typeof text !== 'string' || !text.trim() || fromStep !== expectedFrom || typeof toStep !== 'number'
+            || !Number.isInteger(toStep) || toStep < fromStep || toStep > outline.length) return null;
+        const covered = outline.slice(fromStep - 1, toStep);
+        steps.push({
+            text: text.trim(),
+            maneuver: MANEUVERS.includes(maneuver as Maneuver) ? maneuver as Maneuver : covered[0].maneuver,
+            unitIds: covered.flatMap(step => step.unitIds).filter((id, i, ids) => id !== ids[i - 1]),
+            fromIndex: covered[0].fromIndex,
+            toIndex: covered[covered.length - 1].toIndex,
+            levelId: covered[0].levelId,
+            distance: covered.reduce((sum, step) => sum + step.distance, 0),
+        });
+        expectedFrom = toStep + 1;
+    }
+    return expectedFrom === outline.length + 1 ? steps : null;
+};
+
+// Step texts in the model's JSON as far as it has been written; the last may be cut off
+const STEP_TEXT_PATTERN = /"text"\s*:\s*"((?:[^"\\]|\\.)*)/g;
+
+const extractStepTexts = (partialJson: string): string[] =>
+    [...partialJson.matchAll(STEP_TEXT_PATTERN)].map(([, body]) => {
+        // A chunk can end inside an escape sequence; leave it out until the rest arrives
+        const complete = body.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+        try {
+            return JSON.parse(`"${complete}"`);
+        } catch {
+            return complete;
+        }
+    });
+
+/**
+ * Reads Ollama's streamed reply: one JSON object per line, each with the next piece of the
+ * response. Returns the whole response, passing what has arrived so far to onChunk.
+ */
+const readResponseStream = async (response: Response, onChunk: (soFar: string) => void): Promise<string> => {
+    if (!response.body) throw new Error('Ollama sent no response body');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let text = '';
+    const readLine = (line: string) => {
+        if (!line.trim()) return;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(`Ollama reported an error: ${chunk.error}`);
+        if (chunk.response) {
+            text += chunk.response;
+            onChunk(text);
+        }
+    };
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        lines.forEach(readLine);
+    }
+    readLine(buffered + decoder.decode());
+    return text;
+};
+
+export interface InstructionRequestOptions {
+    /** Aborting stops the model's reply and rejects with an AbortError. */
+    signal?: AbortSignal;
+    /** Receives the step texts written so far while the model's reply streams in. */
+    onDraft?: (stepTexts: string[]) => void;
+}
+
+/** Directions for a route, and whether the model wrote them or they were derived from the route's geometry. */
+export interface GeneratedInstructions {
+    steps: NavigationStep[];
+    source: 'ollama' | 'rules';
+}
+
 export const navigationService = {
-    async generateInstructions(path: string[], campusData: CampusData): Promise<string> {
-        if (!path || path.length < 2) {
-            return "No path to generate instructions for.";
+    async generateInstructions(path: string[], waypoints: Waypoint[], campusData: CampusData, options?: InstructionRequestOptions): Promise<GeneratedInstructions> {
+        const signal = options?.signal;
+        // Measured from the route's geometry; also the fallback whenever the model cannot be used
+        const crs = detectCoordinateSystem(campusData.units.flatMap(u => u.polygon));
+        const ruleBased: GeneratedInstructions = {
+            steps: !path || path.length < 2 ? [] : generateRuleBasedSteps(waypoints, campusData, crs),
+            source: 'rules',
+        };
+        if (ruleBased.steps.length === 0) {
+            return ruleBased;
         }
 
         const available = await isOllamaAvailable();
+        signal?.throwIfAborted();
         if (!available) {
-            return "⚠️ Ollama is not running. Start it with `ollama serve` and make sure you have pulled a model: `ollama pull llama3.2`. Follow the path highlighted on the map.";
+            return ruleBased;
         }
 
         const pathUnits = path
             .map(id => campusData.units.find(u => u.id === id))
             .filter((u): u is Unit => !!u);
 
-        const prompt = `You are an indoor navigation assistant. Generate clear, numbered, step-by-step navigation instructions for the following path through a campus building.
+        const prompt = `You are an indoor navigation assistant. Rewrite the measured outline of a path through a campus building as clear, friendly step-by-step navigation instructions.
 
 Building levels: ${JSON.stringify(campusData.levels.map(l => ({ id: l.id, name: l.name })))}
 
 Path (in order):
 ${pathUnits.map(unit => `- ${unit.name} (Type: ${unit.type}, Level: ${campusData.levels.find(l => l.id === unit.levelId)?.name ?? 'Unknown'})`).join('\n')}
 
+Outline with turns and distances measured on the map:
+${ruleBased.steps.map((step, i) => `${i + 1}. [${step.maneuver}] ${step.text}`).join('\n')}
+
 Rules:
-- Combine consecutive corridor movements into one step.
+- Keep the turns, floors and distances of the outline.
+- Each of your steps covers outline steps fromStep to toStep. Together they must cover every outline step once, in order; merge steps only where that reads better.
 - Clearly state when to use stairs or elevator and which floor to go to.
 - Use "Enter [Room Name]" when arriving at a destination room.
-- Be concise. Output only the numbered list, no preamble.`;
+- Be concise. Do not number the step texts.`;
 
         try {
             const response = await fetch(`${OLLAMA_BASE_URL}/api/generate`, {
@@ -51,19 +182,28 @@ Rules:
                 body: JSON.stringify({
                     model: OLLAMA_MODEL,
                     prompt,
-                    stream: false,
+                    stream: true,
+                    format: STEPS_SCHEMA,
                 }),
+                signal,
             });
 
             if (!response.ok) {
                 throw new Error(`Ollama responded with status ${response.status}`);
             }
 
-            const data = await response.json();
-            return data.response ?? "No instructions returned by model.";
+            const reply = await readResponseStream(response, soFar => options?.onDraft?.(extractStepTexts(soFar)));
+            const steps = parseModelSteps(reply, ruleBased.steps);
+            if (!steps) {
+                console.warn("Ollama's steps did not match the route outline; using the outline instead.");
+                return ruleBased;
+            }
+            return { steps, source: 'ollama' };
         } catch (error) {
+            // A cancelled route needs no directions at all
+            if (signal?.aborted) throw error;
             console.error("Error generating navigation instructions via Ollama:", error);
-            return "Could not generate AI-powered instructions. Please follow the path highlighted on the map.";
+            return ruleBased;
         }
     },
 };
@@ -0,0 +1,82 @@
+import type { NavGraphNode, Point, Unit, Waypoint } from '../types';
+import { findSharedEdge } from '../utils/geometry';
+import { findPathInPolygon } from '../utils/polygonPath';
+
+/** A point the route must pass through, and the unit walked through to reach the next one. */
+interface RouteStop {
+    point: Point;
+    levelId: string;
+    isUnitCenter: boolean;
+    // Unit traversed between this stop and the next; null for vertical moves and fallback links
+    legUnitId: string | null;
+    nodeUnitId: string; // The unit of the graph node the stop comes from
+}
+
+/**
+ * Turns a graph path into drawable waypoints that stay inside the traversed units.
+ *
+ * Graph paths hop centroid → door → centroid, which cuts corners in L-shaped rooms and
+ * corridors. Here each leg is replaced by the shortest walk inside the unit it crosses,
+ * and the centroids of units that are only passed through are dropped, so a corridor
+ * is walked door to door instead of via its middle.
+ */
+export const buildPathWaypoints = (
+    path: string[],
+    nodeMap: Map<string, NavGraphNode>,
+    unitMap: Map<string, Unit>
+): Waypoint[] => {
+    const nodes = path.map(id => nodeMap.get(id)).filter((n): n is NavGraphNode => !!n);
+    if (nodes.length === 0) return [];
+
+    const stops: RouteStop[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+        const node = nodes[i];
+        const next = nodes[i + 1];
+        const stop: RouteStop = { point: node.point, levelId: node.levelId, isUnitCenter: node.type === 'center', legUnitId: null, nodeUnitId: node.originalUnitId };
+        stops.push(stop);
+        if (!next || next.levelId !== node.levelId) continue;
+
+        if (node.type === 'center' && next.type === 'center') {
+            // Two open transit spaces linked centroid-to-centroid: cross their shared edge
+            const unitA = unitMap.get(node.originalUnitId);
+            const unitB = unitMap.get(next.originalUnitId);
+            const sharedEdge = unitA && unitB ? findSharedEdge(unitA.polygon, unitB.polygon) : null;
+            if (!sharedEdge) continue; // Fallback proximity link: keep the straight line
+            stop.legUnitId = node.originalUnitId;
+            stops.push({
+                point: { x: (sharedEdge[0].x + sharedEdge[1].x) / 2, y: (sharedEdge[0].y + sharedEdge[1].y) / 2 },
+                levelId: node.levelId,
+                isUnitCenter: false,
+                legUnitId: next.originalUnitId,
+                nodeUnitId: next.originalUnitId,
+            });
+        } else {
+            // Centroid (or anchor) → door walks through its own unit, door → centroid through the next one
+            stop.legUnitId = node.type === 'center' || node.type === 'point' ? node.originalUnitId : next.originalUnitId;
+        }
+    }
+
+    // Drop the centroids of units that are only passed through
+    const simplified: RouteStop[] = [];
+    stops.forEach((stop, i) => {
+        const previous = simplified[simplified.length - 1];
+        const isPassThrough = stop.isUnitCenter && i > 0 && i < stops.length - 1 &&
+            stop.legUnitId !== null && previous?.legUnitId === stop.legUnitId;
+        if (!isPassThrough) simplified.push(stop);
+    });
+
+    const waypoints: Waypoint[] = [];
+    simplified.forEach((stop, i) => {
+        const next = simplified[i + 1];
+        const unit = stop.legUnitId ? unitMap.get(stop.legUnitId) : undefined;
+        const unitId = stop.legUnitId ?? stop.nodeUnitId;
+        if (!next) {
+            waypoints.push({ point: stop.point, levelId: stop.levelId, unitId });
+            return;
+        }
+        const walk = unit ? findPathInPolygon(stop.point, next.point, unit.polygon) : [stop.point, next.point];
+        // The last point of each walk is the next stop, which adds itself
+        walk.slice(0, -1).forEach(point => waypoints.push({ point, levelId: stop.levelId, unitId }));
+    });
+    return waypoints;
+};
@@ -0,0 +1,311 @@
+import type { AccessLevel, Level, NavigationGraph, NavGraphEdge, NavGraphNode, RouteConstraints, RouteMetric, RouteQuery, RoutingProfile, TravelTimeModel } from '../types';
+import { UnitType } from '../types';
+import { detectCoordinateSystem, type CoordinateSystem } from '../utils/coordinateSystem';
+import { MinHeap } from '../utils/priorityQueue';
+
+/**
+ * Pre-computed lookup tables for running searches over a NavigationGraph.
+ * Build it once per graph with `createRoutingContext` and reuse it for every query.
+ */
+export interface RoutingContext {
+    graph: NavigationGraph;
+    nodeMap: Map<string, NavGraphNode>;
+    levelZ: Map<string, number>;
+    /** Coordinate system of the node points, used to measure distances in metres. */
+    crs: CoordinateSystem;
+    /** Lower bound on the cost of one metre of planar distance, used by the heuristic. */
+    planarCostPerMetre: number;
+    /** Lower bound on the extra cost of moving one floor up or down, used by the heuristic. */
+    verticalCostPerFloor: number;
+}
+
+/**
+ * Builds the routing context for a graph.
+ *
+ * The A* heuristic is calibrated from the graph itself so it stays admissible whatever
+ * the edge weights encode: the planar factor is the smallest weight/metre ratio of any
+ * edge, and the vertical factor is the smallest per-floor surcharge on a vertical edge.
+ */
+export const createRoutingContext = (graph: NavigationGraph, levels: Level[]): RoutingContext => {
+    const nodeMap = new Map<string, NavGraphNode>();
+    graph.nodes.forEach(node => nodeMap.set(node.id, node));
+
+    const levelZ = new Map<string, number>();
+    levels.forEach(level => levelZ.set(level.id, level.zIndex));
+
+    const crs = detectCoordinateSystem(graph.nodes.map(node => node.point));
+
+    let planarCostPerMetre = Infinity;
+    for (const edgeList of Object.values(graph.edges)) {
+        for (const edge of edgeList) {
+            const from = nodeMap.get(edge.from);
+            const to = nodeMap.get(edge.to);
+            if (!from || !to) continue;
+            const length = crs.distance(from.point, to.point);
+            if (length > 1e-9) {
+                planarCostPerMetre = Math.min(planarCostPerMetre, edge.weight / length);
+            }
+        }
+    }
+    if (!isFinite(planarCostPerMetre)) planarCostPerMetre = 0;
+    planarCostPerMetre = Math.max(0, planarCostPerMetre);
+
+    let verticalCostPerFloor = Infinity;
+    for (const edgeList of Object.values(graph.edges)) {
+        for (const edge of edgeList) {
+            if (edge.type !== 'vertical') continue;
+            const from = nodeMap.get(edge.from);
+            const to = nodeMap.get(edge.to);
+            if (!from || !to) continue;
+            const floors = Math.abs((levelZ.get(from.levelId) ?? 0) - (levelZ.get(to.levelId) ?? 0));
+            const surcharge = edge.weight - planarCostPerMetre * crs.distance(from.point, to.point);
+            verticalCostPerFloor = Math.min(verticalCostPerFloor, surcharge / Math.max(1, floors));
+        }
+    }
+    if (!isFinite(verticalCostPerFloor)) verticalCostPerFloor = 0;
+    verticalCostPerFloor = Math.max(0, verticalCostPerFloor);
+
+    return { graph, nodeMap, levelZ, crs, planarCostPerMetre, verticalCostPerFloor };
+};
+
+const getFloorsBetween = (ctx: RoutingContext, a: NavGraphNode, b: NavGraphNode): number =>
+    Math.abs((ctx.levelZ.get(a.levelId) ?? 0) - (ctx.levelZ.get(b.levelId) ?? 0));
+
+/**
+ * Estimated time in seconds to traverse an edge. Walking time comes from the edge's
+ * planar length; vertical edges use the model's per-floor times instead of their weight.
+ * An elevator ride is a single vertical edge however many floors it spans, so its wait
+ * is charged there, and walking into an elevator without riding it costs no wait.
+ */
+export const getEdgeTravelTime = (ctx: RoutingContext, edge: NavGraphEdge, model: TravelTimeModel): number => {
+    const from = ctx.nodeMap.get(edge.from);
+    const to = ctx.nodeMap.get(edge.to);
+    if (!from || !to) return edge.weight / model.walkingSpeed;
+
+    if (edge.type === 'vertical') {
+        const floors = getFloorsBetween(ctx, from, to);
+        const walkSeconds = ctx.crs.distance(from.point, to.point) / model.walkingSpeed;
+        // As in the graph generator, only a shaft that is an elevator on both floors is ridden
+        if (from.unitType === UnitType.ELEVATOR && to.unitType === UnitType.ELEVATOR) {
+            return walkSeconds + model.elevatorWaitSeconds + floors * model.elevatorSecondsPerFloor;
+        }
+        return walkSeconds + floors * model.stairsSecondsPerFloor;
+    }
+
+    let seconds = edge.weight / model.walkingSpeed;
+    if (to.type === 'door') seconds += model.doorSeconds;
+    return seconds;
+};
+
+/** Estimated travel time in seconds along a path of node ids, using the fastest edge between each pair. */
+export const getPathTravelTime = (ctx: RoutingContext, path: string[], model: TravelTimeModel): number => {
+    let seconds = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+        let fastest = Infinity;
+        for (const edge of ctx.graph.edges[path[i]] || []) {
+            if (edge.to === path[i + 1]) fastest = Math.min(fastest, getEdgeTravelTime(ctx, edge, model));
+        }
+        seconds += fastest;
+    }
+    return seconds;
+};
+
+/** Admissible estimate of the remaining cost from `node` to `goal`. */
+const estimateCost = (ctx: RoutingContext, node: NavGraphNode, goal: NavGraphNode, metric: RouteMetric, model: TravelTimeModel): number => {
+    const planarMetres = ctx.crs.distance(node.point, goal.point);
+    const floors = getFloorsBetween(ctx, node, goal);
+    if (metric === 'time') {
+        // Every edge takes at least its planar length at walking speed, plus the quicker of
+        // the per-floor stair and elevator times for each floor changed
+        const floorSeconds = Math.min(model.stairsSecondsPerFloor, model.elevatorSecondsPerFloor);
+        return (planarMetres * Math.min(1, ctx.planarCostPerMetre)) / model.walkingSpeed + floors * floorSeconds;
+    }
+    return planarMetres * ctx.planarCostPerMetre + floors * ctx.verticalCostPerFloor;
+};
+
+/** The access tags a profile routes through, limited to the ones `granted` (e.g. a role's ROLE_ACCESS). */
+export const getAllowedAccess = (profile: RoutingProfile, granted: AccessLevel[]): AccessLevel[] =>
+    profile.access.filter(level => granted.includes(level));
+
+/**
+ * Returns whether a search under `constraints` may enter a node. Nodes tagged with an
+ * access level the search is not granted are never entered. The profile rules only apply
+ * to the units passed through: a destination is always allowed, so a route can start or
+ * end in a space the profile would not pass through.
+ */
+const canEnterNode = (node: NavGraphNode, constraints: RouteConstraints, isDestination: boolean): boolean => {
+    if (!constraints.allowedAccess.includes(node.access ?? 'public')) return false;
+    if (node.type === 'point') return isDestination; // Anchors are route ends, never shortcuts through their unit
+    if (isDestination || node.type !== 'center') return true; // Door and opening nodes belong to no unit
+    const { profile } = constraints;
+    if (node.unitType && profile.excludedUnitTypes.includes(node.unitType)) return false;
+    if (profile.requireAccessible && node.accessible === false) return false;
+    return true;
+};
+
+/** Returns whether an edge may be traversed by a query; see canEnterNode. */
+export const isEdgeAllowed = (ctx: RoutingContext, edge: NavGraphEdge, query: RouteQuery): boolean => {
+    const toNode = ctx.nodeMap.get(edge.to);
+    return !toNode || canEnterNode(toNode, query, edge.to === query.endId);
+};
+
+/** Cost multiplier the profile applies to an edge, from the type of the unit it enters. */
+const getEdgePenalty = (ctx: RoutingContext, edge: NavGraphEdge, profile: RoutingProfile): number => {
+    const unitType = ctx.nodeMap.get(edge.to)?.unitType;
+    return Math.max(1, (unitType && profile.unitTypePenalties[unitType]) || 1);
+};
+
+/** Search cost of an edge: its metres or travel time, times the profile's penalty. */
+const getEdgeCost = (ctx: RoutingContext, edge: NavGraphEdge, constraints: RouteConstraints): number => {
+    const { profile, metric } = constraints;
+    const base = metric === 'time' ? getEdgeTravelTime(ctx, edge, profile.travelTime) : edge.weight;
+    return base * getEdgePenalty(ctx, edge, profile);
+};
+
+/** Search cost of a path of node ids, using the cheapest edge between each pair (Infinity if one is missing). */
+export const getPathCost = (ctx: RoutingContext, path: string[], constraints: RouteConstraints): number => {
+    let cost = 0;
+    for (let i = 0; i < path.length - 1; i++) {
+        let cheapest = Infinity;
+        for (const edge of ctx.graph.edges[path[i]] || []) {
+            if (edge.to === path[i + 1]) cheapest = Math.min(cheapest, getEdgeCost(ctx, edge, constraints));
+        }
+        cost += cheapest;
+    }
+    return cost;
+};
+
+/** Walks `previous` links back from `endId` and returns the path from the search origin. */
+const reconstructPath = (previous: Map<string, string>, endId: string): string[] => {
+    const path: string[] = [endId];
+    for (let current = previous.get(endId); current !== undefined; current = previous.get(current)) {
+        path.push(current);
+    }
+    return path.reverse();
+};
+
+// How many settled nodes between two progress reports
+const PROGRESS_INTERVAL = 500;
+
+export interface PathSearchResult {
+    path: string[];
+    /** Total search cost of the path, in the query's metric with profile penalties applied. */
+    cost: number;
+}
+
+/**
+ * Finds the cheapest path for a query using A* over a binary heap.
+ * Returns the ordered list of node ids and its cost, or null if the destination is unreachable.
+ *
+ * Edges the profile or the granted access levels exclude are skipped, and penalised ones
+ * cost more. With the 'time' metric edges cost their travel time under the profile's
+ * TravelTimeModel.
+ *
+ * `onProgress` receives the share (0-100) of graph nodes settled so far. A* usually stops
+ * well before settling every node, so treat it as an upper-bound indicator of work done.
+ */
+export const findPath = (
+    ctx: RoutingContext,
+    query: RouteQuery,
+    onProgress?: (progress: number) => void
+): PathSearchResult | null => {
+    const { startId, endId, profile, metric } = query;
+    if (!startId || !endId) return null;
+    const goal = ctx.nodeMap.get(endId);
+    const start = ctx.nodeMap.get(startId);
+    if (!start || !goal) return null;
+
+    const model = profile.travelTime;
+
+    const distances = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, string>();
+    const settled = new Set<string>();
+    const open = new MinHeap<string>();
+    open.push(startId, estimateCost(ctx, start, goal, metric, model));
+
+    while (!open.isEmpty()) {
+        const u = open.pop()!.item;
+        if (settled.has(u)) continue; // Stale heap entry
+        if (u === endId) break;
+        settled.add(u);
+        if (onProgress && settled.size % PROGRESS_INTERVAL === 0) {
+            onProgress((settled.size / ctx.graph.nodes.length) * 100);
+        }
+
+        const distU = distances.get(u)!;
+        for (const edge of ctx.graph.edges[u] || []) {
+            if (settled.has(edge.to)) continue;
+            if (!isEdgeAllowed(ctx, edge, query)) continue;
+
+            const alt = distU + getEdgeCost(ctx, edge, query);
+            if (alt < (distances.get(edge.to) ?? Infinity)) {
+                distances.set(edge.to, alt);
+                previous.set(edge.to, u);
+                const neighbor = ctx.nodeMap.get(edge.to);
+                open.push(edge.to, alt + (neighbor ? estimateCost(ctx, neighbor, goal, metric, model) : 0));
+            }
+        }
+    }
+
+    if (!distances.has(endId)) return null;
+    return { path: reconstructPath(previous, endId), cost: distances.get(endId)! };
+};
+
+export interface NearestUnitResult extends PathSearchResult {
+    unitId: string;
+}
+
+/**
+ * One-to-many search: expands from `startId` in order of route cost (Dijkstra) until it
+ * has reached the `k` closest units of any of `unitTypes`, and returns them cheapest
+ * first. The start unit itself is never a result. Targets the profile would not pass
+ * through can still be reached, but the search does not continue beyond them.
+ */
+export const findNearestUnits = (
+    ctx: RoutingContext,
+    startId: string,
+    unitTypes: UnitType[],
+    k: number,
+    constraints: RouteConstraints,
+    onProgress?: (progress: number) => void
+): NearestUnitResult[] => {
+    const results: NearestUnitResult[] = [];
+    if (!ctx.nodeMap.has(startId) || k <= 0) return results;
+    const isTarget = (node: NavGraphNode) =>
+        node.type === 'center' && node.id !== startId && !!node.unitType && unitTypes.includes(node.unitType);
+
+    const distances = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, string>();
+    const settled = new Set<string>();
+    const open = new MinHeap<string>();
+    open.push(startId, 0);
+
+    while (!open.isEmpty() && results.length < k) {
+        const { item: u, priority: distU } = open.pop()!;
+        if (settled.has(u)) continue; // Stale heap entry
+        settled.add(u);
+        if (onProgress && settled.size % PROGRESS_INTERVAL === 0) {
+            onProgress((settled.size / ctx.graph.nodes.length) * 100);
+        }
+
+        const node = ctx.nodeMap.get(u)!;
+        if (isTarget(node)) {
+            results.push({ unitId: u, path: reconstructPath(previous, u), cost: distU });
+            if (!canEnterNode(node, constraints, false)) continue;
+        }
+
+        for (const edge of ctx.graph.edges[u] || []) {
+            if (settled.has(edge.to)) continue;
+            const toNode = ctx.nodeMap.get(edge.to);
+            if (toNode && !canEnterNode(toNode, constraints, isTarget(toNode))) continue;
+
+            const alt = distU + getEdgeCost(ctx, edge, constraints);
+            if (alt < (distances.get(edge.to) ?? Infinity)) {
+                distances.set(edge.to, alt);
+                previous.set(edge.to, u);
+                open.push(edge.to, alt);
+            }
+        }
+    }
+    return results;
+};
@@ -0,0 +1,82 @@
+import type { NavGraphEdge, NavGraphNode, Point, RouteAnchor, Unit } from '../types';
+import { isPointInPolygon } from '../utils/geometry';
+import type { RoutingContext } from './pathfinder';
+
+/** Node ids of the temporary nodes for a route's exact start and end positions. */
+export const START_ANCHOR_ID = 'anchor:start';
+export const END_ANCHOR_ID = 'anchor:end';
+
+/** The unit on `levelId` that contains `point`, or null when it is outside every unit. */
+export const findContainingUnit = (units: Unit[], levelId: string, point: Point): Unit | null =>
+    units.find(u => u.levelId === levelId && isPointInPolygon(point, u.polygon)) ?? null;
+
+/**
+ * The temporary node for an anchor and the nodes it links to: its unit's centre and the
+ * door and opening nodes on the unit's boundary, so routes leave from the exact position
+ * instead of detouring via the centroid. Null when the unit is not in the graph.
+ */
+export const createAnchorNode = (
+    anchor: RouteAnchor,
+    nodeMap: Map<string, NavGraphNode>,
+    edges: Record<string, NavGraphEdge[]>
+): { node: NavGraphNode; linkedIds: string[] } | null => {
+    const center = nodeMap.get(anchor.unitId);
+    if (!center) return null;
+    const doorways = (edges[center.id] || [])
+        .map(edge => nodeMap.get(edge.to))
+        .filter((n): n is NavGraphNode => !!n && n.type !== 'center' && n.levelId === center.levelId);
+    return {
+        node: {
+            id: anchor.id,
+            type: 'point',
+            point: anchor.point,
+            levelId: center.levelId,
+            originalUnitId: center.id,
+            access: center.access,
+        },
+        linkedIds: [center.id, ...doorways.map(n => n.id)],
+    };
+};
+
+/** Node map with the temporary nodes of `anchors` added, for turning anchored paths into waypoints. */
+export const addAnchorsToNodeMap = (
+    nodeMap: Map<string, NavGraphNode>,
+    edges: Record<string, NavGraphEdge[]>,
+    anchors: RouteAnchor[]
+): Map<string, NavGraphNode> => {
+    if (anchors.length === 0) return nodeMap;
+    const extended = new Map(nodeMap);
+    anchors.forEach(anchor => {
+        const created = createAnchorNode(anchor, nodeMap, edges);
+        if (created) extended.set(created.node.id, created.node);
+    });
+    return extended;
+};
+
+/**
+ * Routing context with a temporary node for each anchor, linked both ways to the nodes
+ * of its unit (see createAnchorNode) by straight edges weighted by their length.
+ */
+export const addAnchors = (ctx: RoutingContext, anchors: RouteAnchor[] = []): RoutingContext => {
+    if (anchors.length === 0) return ctx;
+    const nodes = [...ctx.graph.nodes];
+    const nodeMap = new Map(ctx.nodeMap);
+    const edges: Record<string, NavGraphEdge[]> = { ...ctx.graph.edges };
+
+    anchors.forEach(anchor => {
+        const created = createAnchorNode(anchor, ctx.nodeMap, ctx.graph.edges);
+        if (!created) return;
+        const { node, linkedIds } = created;
+        nodes.push(node);
+        nodeMap.set(node.id, node);
+        edges[node.id] = [];
+        linkedIds.forEach(id => {
+            const weight = ctx.crs.distance(node.point, ctx.nodeMap.get(id)!.point);
+            edges[node.id].push({ from: node.id, to: id, weight, type: 'horizontal' });
+            edges[id] = [...(edges[id] || []), { from: id, to: node.id, weight, type: 'horizontal' }];
+        });
+    });
+
+    // Anchor edges cost exactly their length, so the heuristic must not assume more per metre
+    return { ...ctx, graph: { nodes, edges }, nodeMap, planarCostPerMetre: Math.min(ctx.planarCostPerMetre, 1) };
+};
@@ -0,0 +1,59 @@
+import type { RouteConstraints, RouteDetour, RoutePlan, RouteQuery, RouteResult } from '../types';
+import { findPath, getPathTravelTime, type PathSearchResult, type RoutingContext } from './pathfinder';
+import { solveStopOrder } from '../utils/stopOrder';
+
+/**
+ * Plans a route through several stops: the first stop is the start, the last the
+ * destination. With `optimiseOrder` the stops in between are reordered to minimise the
+ * total cost, using the cost of every pairwise path; otherwise they are visited as given.
+ * Returns null when some stop cannot be reached.
+ *
+ * `onProgress` receives the share (0-100) of leg searches done; `explainDetour`, when
+ * given, is asked about every leg of the chosen route.
+ */
+export const planRoute = (
+    ctx: RoutingContext,
+    stopIds: string[],
+    constraints: RouteConstraints,
+    optimiseOrder: boolean,
+    onProgress?: (progress: number) => void,
+    explainDetour?: (query: RouteQuery, leg: PathSearchResult) => RouteDetour | undefined
+): RoutePlan | null => {
+    if (stopIds.length < 2) return null;
+    const n = stopIds.length;
+
+    // Only the legs that can appear in a route are searched: nothing leaves the
+    // destination or returns to the start, and without reordering only consecutive stops.
+    const legs: Array<Array<PathSearchResult | null>> = stopIds.map(() => new Array(n).fill(null));
+    const pairs: Array<[number, number]> = [];
+    for (let i = 0; i < n - 1; i++) {
+        for (let j = 1; j < n; j++) {
+            if (i === j || (!optimiseOrder && j !== i + 1)) continue;
+            pairs.push([i, j]);
+        }
+    }
+    pairs.forEach(([i, j], k) => {
+        legs[i][j] = findPath(ctx, { startId: stopIds[i], endId: stopIds[j], ...constraints });
+        onProgress?.(((k + 1) / pairs.length) * 100);
+    });
+
+    const order = optimiseOrder
+        ? solveStopOrder(legs.map(row => row.map(leg => leg?.cost ?? Infinity)))
+        : stopIds.map((_, i) => i);
+
+    const routeLegs: RouteResult[] = [];
+    for (let k = 0; k < order.length - 1; k++) {
+        const leg = legs[order[k]][order[k + 1]];
+        if (!leg) return null;
+        routeLegs.push({
+            path: leg.path,
+            travelTime: getPathTravelTime(ctx, leg.path, constraints.profile.travelTime),
+            detour: explainDetour?.({ startId: stopIds[order[k]], endId: stopIds[order[k + 1]], ...constraints }, leg),
+        });
+    }
+    return {
+        stopIds: order.map(i => stopIds[i]),
+        legs: routeLegs,
+        travelTime: routeLegs.reduce((sum, leg) => sum + leg.travelTime, 0),
+    };
+};
@@ -0,0 +1,42 @@
+import type { NavigationStep, Waypoint } from '../types';
+
+/** A point of a route where 3D playback pauses, and the step of the directions that starts there. */
+export interface PlaybackStop {
+    waypointIndex: number;
+    stepIndex: number;
+}
+
+/** Where a route changes floor, by the stairs or elevator it takes. */
+export interface LevelTransition {
+    fromIndex: number; // Last waypoint on fromLevelId
+    toIndex: number; // First waypoint on toLevelId
+    fromLevelId: string;
+    toLevelId: string;
+    unitId?: string; // The stairs or elevator
+}
+
+/** Playback pauses where each step of the directions starts. */
+export const getPlaybackStops = (steps: NavigationStep[]): PlaybackStop[] =>
+    steps.map((step, stepIndex) => ({ waypointIndex: step.fromIndex, stepIndex }));
+
+/**
+ * The floor changes along a route. Riding several floors in one go passes each floor in
+ * between with a single waypoint; such a ride is one transition.
+ */
+export const getLevelTransitions = (waypoints: Waypoint[]): LevelTransition[] => {
+    const transitions: LevelTransition[] = [];
+    for (let i = 0; i < waypoints.length - 1; i++) {
+        if (waypoints[i].levelId === waypoints[i + 1].levelId) continue;
+        let j = i + 1;
+        while (j < waypoints.length - 1 && waypoints[j + 1].levelId !== waypoints[j].levelId) j++;
+        transitions.push({
+            fromIndex: i,
+            toIndex: j,
+            fromLevelId: waypoints[i].levelId,
+            toLevelId: waypoints[j].levelId,
+            unitId: waypoints[i].unitId,
+        });
+        i = j - 1;
+    }
+    return transitions;
+};
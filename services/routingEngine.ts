@@ -0,0 +1,214 @@
+import type { CampusData, EvacuationPlan, Level, NavigationGraph, NearbyUnit, ResolvedClosure, RouteConstraints, RoutePlan, RouteQuery, RouteResult, UnitType } from '../types';
+import type { RoutingWorkerRequest, RoutingWorkerResponse } from '../workers/routingProtocol';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type RequestPayload = DistributiveOmit<RoutingWorkerRequest, 'requestId'>;
+type FinalResponse = Exclude<RoutingWorkerResponse, { type: 'progress' | 'error' }>;
+
+export interface RoutingRequestOptions {
+    /** Aborting rejects the request with an AbortError and stops the work in the worker. */
+    signal?: AbortSignal;
+    /** Receives a percentage (0-100) while the worker is busy with this request. */
+    onProgress?: (progress: number) => void;
+}
+
+interface PendingRequest {
+    message: RoutingWorkerRequest;
+    resolve: (response: FinalResponse) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: number) => void;
+}
+
+/** Returns true for the error a request rejects with when it is cancelled. */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Main-thread handle on the routing worker (`workers/routing.worker.ts`).
+ *
+ * The worker holds the navigation graph; this class turns its message protocol into
+ * promises. Requests are queued here and sent to the worker one at a time, so cancelling
+ * a queued request just drops it. A worker cannot be interrupted mid-task, so cancelling
+ * the request it is working on terminates the worker and starts a fresh one, which is
+ * re-seeded with the last graph and closures before it takes the next request.
+ */
+export class RoutingEngine {
+    private worker: Worker;
+    // Every request not yet answered, in the order they were made
+    private pending = new Map<number, PendingRequest>();
+    // The request the worker is working on, if any
+    private runningId: number | null = null;
+    private nextRequestId = 1;
+    private currentGraph: { graph: NavigationGraph; levels: Level[] } | null = null;
+    private currentClosures: ResolvedClosure[] = [];
+
+    constructor() {
+        this.worker = this.spawnWorker();
+    }
+
+    /** Generates the navigation graph for a dataset inside the worker and returns a copy of it. */
+    async build(data: CampusData, options?: RoutingRequestOptions): Promise<NavigationGraph> {
+        const response = await this.request({ type: 'build', data }, options);
+        if (response.type !== 'built') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        this.currentGraph = { graph: response.graph, levels: data.levels };
+        return response.graph;
+    }
+
+    /** Hands a previously generated graph to the worker so it can answer queries without rebuilding. */
+    async load(graph: NavigationGraph, levels: Level[], options?: RoutingRequestOptions): Promise<void> {
+        await this.request({ type: 'load', graph, levels }, options);
+        this.currentGraph = { graph, levels };
+    }
+
+    /** Replaces the closures routes must avoid; they stay in force across graph rebuilds. */
+    async setClosures(closures: ResolvedClosure[], options?: RoutingRequestOptions): Promise<void> {
+        this.currentClosures = closures;
+        await this.request({ type: 'setClosures', closures }, options);
+    }
+
+    /** Finds the shortest or fastest path for a query. Resolves to null when unreachable. */
+    async findPath(query: RouteQuery, options?: RoutingRequestOptions): Promise<RouteResult | null> {
+        const response = await this.request({ type: 'findPath', query }, options);
+        if (response.type !== 'path') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        return response.route;
+    }
+
+    /** Finds up to `k` distinct routes for a query, best first; see services/alternativeRoutes.ts. */
+    async findAlternatives(query: RouteQuery, k: number, options?: RoutingRequestOptions): Promise<RouteResult[]> {
+        const response = await this.request({ type: 'findAlternatives', query, k }, options);
+        if (response.type !== 'alternatives') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        return response.routes;
+    }
+
+    /** Plans a route through several stops, optionally reordering the intermediate ones. Resolves to null when some stop is unreachable. */
+    async planRoute(
+        stopIds: string[],
+        constraints: RouteConstraints,
+        optimiseOrder: boolean,
+        options?: RoutingRequestOptions
+    ): Promise<RoutePlan | null> {
+        const response = await this.request({ type: 'planRoute', stopIds, constraints, optimiseOrder }, options);
+        if (response.type !== 'plan') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        return response.plan;
+    }
+
+    /** Finds the `k` units of the given types with the cheapest routes from `startId`, cheapest first. */
+    async findNearest(
+        startId: string,
+        unitTypes: UnitType[],
+        k: number,
+        constraints: RouteConstraints,
+        options?: RoutingRequestOptions
+    ): Promise<NearbyUnit[]> {
+        const response = await this.request({ type: 'findNearest', startId, unitTypes, k, constraints }, options);
+        if (response.type !== 'nearest') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        return response.results;
+    }
+
+    /** Computes every unit's route to its nearest exit, ignoring the blocked ones. */
+    async evacuationPlan(blockedExitIds: string[], options?: RoutingRequestOptions): Promise<EvacuationPlan> {
+        const response = await this.request({ type: 'evacuationPlan', blockedExitIds }, options);
+        if (response.type !== 'evacuation') throw new Error(`Unexpected routing worker response: ${response.type}`);
+        return response.plan;
+    }
+
+    /** Terminates the worker and rejects every pending request. */
+    dispose(): void {
+        this.worker.terminate();
+        this.pending.forEach(request => request.reject(new DOMException('Routing engine was disposed.', 'AbortError')));
+        this.pending.clear();
+        this.runningId = null;
+    }
+
+    private spawnWorker(): Worker {
+        const worker = new Worker(new URL('../workers/routing.worker.ts', import.meta.url), { type: 'module' });
+        worker.addEventListener('message', (event: MessageEvent<RoutingWorkerResponse>) => this.handleResponse(event.data));
+        worker.addEventListener('error', (event) => {
+            console.error('Routing worker crashed:', event.message);
+            this.pending.forEach(request => request.reject(new Error(`Routing worker error: ${event.message}`)));
+            this.pending.clear();
+            this.runningId = null;
+        });
+        return worker;
+    }
+
+    private handleResponse(response: RoutingWorkerResponse) {
+        const request = this.pending.get(response.requestId);
+        if (!request) return; // Cancelled, or an internal re-seed after a restart
+
+        if (response.type === 'progress') {
+            request.onProgress?.(response.progress);
+            return;
+        }
+        this.pending.delete(response.requestId);
+        if (response.requestId === this.runningId) this.runningId = null;
+        if (response.type === 'error') {
+            request.reject(new Error(response.message));
+        } else {
+            request.resolve(response);
+        }
+        this.sendNext();
+    }
+
+    private request(payload: RequestPayload, options?: RoutingRequestOptions): Promise<FinalResponse> {
+        const requestId = this.nextRequestId++;
+        const message = { ...payload, requestId } as RoutingWorkerRequest;
+        const signal = options?.signal;
+
+        return new Promise<FinalResponse>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new DOMException('Routing request was cancelled.', 'AbortError'));
+                return;
+            }
+
+            const onAbort = () => {
+                if (!this.pending.delete(requestId)) return;
+                reject(new DOMException('Routing request was cancelled.', 'AbortError'));
+                // A queued request is simply dropped; only the running one needs a fresh worker
+                if (requestId !== this.runningId) return;
+                this.runningId = null;
+                // The graph being replaced is not worth restoring
+                if (message.type === 'build' || message.type === 'load') this.currentGraph = null;
+                this.restartWorker();
+                this.sendNext();
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.pending.set(requestId, {
+                message,
+                onProgress: options?.onProgress,
+                resolve: (response) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(response);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            });
+            this.sendNext();
+        });
+    }
+
+    /** Sends the oldest queued request to the worker once it is idle. */
+    private sendNext() {
+        if (this.runningId !== null) return;
+        const next = this.pending.values().next();
+        if (next.done) return;
+        this.runningId = next.value.message.requestId;
+        this.worker.postMessage(next.value.message);
+    }
+
+    private restartWorker() {
+        this.worker.terminate();
+        this.worker = this.spawnWorker();
+        if (this.currentGraph) {
+            // Not tracked as pending: the worker handles messages in order, so the graph is
+            // in place before the next queued request runs.
+            this.worker.postMessage({ type: 'load', requestId: this.nextRequestId++, ...this.currentGraph } satisfies RoutingWorkerRequest);
+        }
+        if (this.currentClosures.length > 0) {
+            this.worker.postMessage({ type: 'setClosures', requestId: this.nextRequestId++, closures: this.currentClosures } satisfies RoutingWorkerRequest);
+        }
+    }
+}
@@ -14,6 +14,7 @@ export enum DetailType {
   WALL = 'WALL',
   DOOR = 'DOOR',
   WINDOW = 'WINDOW',
+  OPENING = 'OPENING', // Doorless gap in a wall; units on both sides are connected
 }
 
 export type Point = {
@@ -23,6 +24,13 @@ export type Point = {
 
 export type Polygon = Point[];
 
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
 export interface Detail {
   id: string;
   type: DetailType;
@@ -84,6 +92,7 @@ export interface Dataset {
     isActive: boolean;
     originLat?: number;
     originLon?: number;
+    graphVersion?: number; // GRAPH_VERSION of the persisted navigation graph
 }
 
 export interface GraphNode {
@@ -105,13 +114,19 @@ export interface Graph {
 
 // FIX: Add missing types for the alternative graph generation logic.
 // These types are used in `services/graphGenerator.ts`.
+/** Access tag on navigation nodes; roles are granted a set of them in ROLE_ACCESS. */
+export type AccessLevel = 'public' | 'restricted';
+
 export interface NavGraphNode {
   id: string;
-  type: 'center' | 'waypoint';
+  type: 'center' | 'door' | 'waypoint' | 'point'; // 'door' sits on a DOOR line, 'waypoint' on an open boundary, 'point' is a RouteAnchor
   point: Point;
   levelId: string;
   originalUnitId: string;
   unitType?: UnitType;
+  accessible?: boolean; // Copied from the unit for centre nodes
+  access?: AccessLevel; // Who may enter the node's unit; missing means 'public'
+  detailId?: string; // The DOOR detail a 'door' node sits on
 }
 
 export interface NavGraphEdge {
@@ -121,19 +136,152 @@ export interface NavGraphEdge {
     type: 'horizontal' | 'vertical';
 }
 
+/** How the stair and elevator edges of a navigation graph are weighted. */
+export interface VerticalCostConfig {
+  floorHeight: number; // metres between two consecutive floors
+  travelTime: TravelTimeModel; // stair and elevator times, converted to metres at its walking speed
+}
+
 export interface NavigationGraph {
   nodes: NavGraphNode[];
   edges: Record<string, NavGraphEdge[]>;
 }
 
-export enum AccessibilityFilter {
-  NONE = 'NONE',
-  ELEVATOR_ONLY = 'ELEVATOR_ONLY',
+
+/** What a route search minimises: walked metres, or estimated travel time. */
+export type RouteMetric = 'distance' | 'time';
+
+/** Parameters for estimating how long a route takes, in seconds. */
+export interface TravelTimeModel {
+  walkingSpeed: number; // metres per second on a flat floor
+  stairsSecondsPerFloor: number;
+  elevatorWaitSeconds: number; // charged once per elevator ride
+  elevatorSecondsPerFloor: number; // ride time per floor travelled
+  doorSeconds: number; // opening and passing through a door
+}
+
+export type RoutingProfileId = 'standard' | 'wheelchair' | 'stroller' | 'avoid-stairs' | 'staff' | 'visitor';
+
+/**
+ * Declarative description of who is travelling and which spaces suit them. The start and
+ * end units of a route are always allowed; the rules only apply to the units in between.
+ */
+export interface RoutingProfile {
+  id: RoutingProfileId;
+  name: string;
+  description: string;
+  excludedUnitTypes: UnitType[]; // never passed through
+  requireAccessible: boolean; // only pass through units flagged accessible
+  // Cost multipliers (>= 1) for entering units of a type; they make a space less
+  // attractive without forbidding it
+  unitTypePenalties: Partial<Record<UnitType, number>>;
+  travelTime: TravelTimeModel;
+  // Access tags the route may pass through, as far as the user's role allows (ROLE_ACCESS);
+  // the profile is only offered to roles granted all of them
+  access: AccessLevel[];
+}
+
+/** Everything a route search needs besides the graph. */
+export interface RouteQuery {
+  startId: string;
+  endId: string;
+  profile: RoutingProfile;
+  metric: RouteMetric;
+  allowedAccess: AccessLevel[];
+  anchors?: RouteAnchor[]; // Temporary nodes the start or end id may refer to
+}
+
+/** An exact position inside a unit to route from or to, added to the graph as a temporary node. */
+export interface RouteAnchor {
+  id: string;
+  unitId: string;
+  point: Point;
+}
+
+/** The parts of a RouteQuery shared by every leg of a multi-stop route. */
+export type RouteConstraints = Omit<RouteQuery, 'startId' | 'endId'>;
+
+/** A path found by the routing engine, with its estimated travel time in seconds. */
+export interface RouteResult {
+  path: string[];
+  travelTime: number;
+  detour?: RouteDetour; // Set when closures made the route longer than it would otherwise be
+}
+
+/** Figures for comparing alternative routes side by side. */
+export interface RouteSummary {
+  distance: number; // Walking metres, floors counted at their height
+  travelTime: number; // Seconds
+  floorsChanged: number;
+  connectorTypes: UnitType[]; // Stairs and/or elevators used, in order of first use
+}
+
+/** What a closure closes: a unit, a DOOR detail, or every floor of a stair/elevator group. */
+export type ClosureTargetType = 'unit' | 'door' | 'connector';
+
+/** A temporary closure entered by an admin, e.g. an elevator out of service. */
+export interface Closure {
+  id: number;
+  targetType: ClosureTargetType;
+  targetId: string; // Unit id, DOOR detail id or verticalConnectorId, by targetType
+  reason: string;
+  startsAt: string; // ISO 8601
+  endsAt: string | null; // Open-ended when null
+}
+
+/** A closure resolved against a navigation graph: the nodes whose edges it removes. */
+export interface ResolvedClosure {
+  closureId: number;
+  nodeIds: string[];
+  verticalOnly: boolean; // Only remove floor-to-floor edges, e.g. a broken elevator
+}
+
+/** How much longer a route is because of closures, and which ones it avoids. */
+export interface RouteDetour {
+  closureIds: number[];
+  extraTravelTime: number; // Seconds
+}
+
+/** A unit found by a nearest-amenity search, with the route to it. */
+export interface NearbyUnit extends RouteResult {
+  unitId: string;
+}
+
+/** A named group of unit types users can search for, e.g. "Exits". */
+export interface AmenityCategory {
+  id: string;
+  name: string;
+  unitTypes: UnitType[];
+}
+
+/** A route through several stops, as one leg per consecutive pair of stops. */
+export interface RoutePlan {
+  stopIds: string[]; // In visiting order, start and destination included
+  legs: RouteResult[];
+  travelTime: number;
+}
+
+/** A unit's way out in an evacuation plan. */
+export interface EvacuationRoute {
+  unitId: string;
+  exitId: string; // The ENTRANCE unit it leads to
+  distance: number; // Walking distance in metres
+  next: Waypoint | null; // Where to head first; null for the exit itself
+}
+
+/**
+ * Egress from every unit to its nearest open exit, as a tree: `nextHops` maps each reached
+ * node to the next node towards its exit. Units missing from `routes` have no way out.
+ */
+export interface EvacuationPlan {
+  routes: Record<string, EvacuationRoute>;
+  nextHops: Record<string, string>;
+  blockedExitIds: string[];
 }
 
 export type Page = 'map' | 'admin';
 
-export type Role = 'admin' | 'viewer';
+export type Role = 'admin' | 'staff' | 'maintenance' | 'viewer';
 
 export interface User {
   name: string;
@@ -143,4 +291,29 @@ export interface User {
 export interface Waypoint {
   point: Point;
   levelId: string;
+  unitId?: string; // Unit walked through towards the next waypoint; for the last one, the unit it is in
+}
+
+/** What a step of directions asks the walker to do where it starts. */
+export type Maneuver =
+  | 'depart'
+  | 'straight'
+  | 'slight-left'
+  | 'slight-right'
+  | 'left'
+  | 'right'
+  | 'u-turn'
+  | 'stairs'
+  | 'elevator'
+  | 'arrive';
+
+/** One step of a route's directions, tied to the stretch of the route's waypoints it describes. */
+export interface NavigationStep {
+  text: string;
+  maneuver: Maneuver;
+  unitIds: string[]; // Units walked through, in order
+  fromIndex: number; // Waypoint the step starts at
+  toIndex: number; // Waypoint the step ends at
+  levelId: string; // Floor walked on; for stairs and elevators, the floor they lead to
+  distance: number; // Metres walked
 }
@@ -0,0 +1,43 @@
+import type { Point } from '../types';
+import { getEuclideanDistance, getHaversineDistance } from './geometry';
+
+/**
+ * How a dataset's coordinates should be interpreted:
+ * - 'geographic': x/y are longitude/latitude in degrees (WGS84, e.g. reprojected shapefiles).
+ * - 'projected':  x/y are planar coordinates in metres (e.g. public/samples/sample.json).
+ */
+export type CoordinateSystemKind = 'geographic' | 'projected';
+
+export interface CoordinateSystem {
+    kind: CoordinateSystemKind;
+    /** Ground distance between two points, in metres. */
+    distance: (p1: Point, p2: Point) => number;
+}
+
+// A single building never spans a whole degree; planar datasets in metres always do.
+const MAX_GEOGRAPHIC_EXTENT = 1;
+
+export const createCoordinateSystem = (kind: CoordinateSystemKind): CoordinateSystem => ({
+    kind,
+    distance: kind === 'geographic' ? getHaversineDistance : getEuclideanDistance,
+});
+
+/**
+ * Guesses the coordinate system from the points of a dataset. Coordinates are treated as
+ * geographic when they all fall in the valid lon/lat range and span less than a degree;
+ * anything else is treated as projected metres.
+ */
+export const detectCoordinateSystem = (points: Point[]): CoordinateSystem => {
+    if (points.length === 0) return createCoordinateSystem('projected');
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+        if (Math.abs(p.x) > 180 || Math.abs(p.y) > 90) return createCoordinateSystem('projected');
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y);
+    }
+    const extent = Math.max(maxX - minX, maxY - minY);
+    return createCoordinateSystem(extent < MAX_GEOGRAPHIC_EXTENT ? 'geographic' : 'projected');
+};
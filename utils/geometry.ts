@@ -1,11 +1,11 @@
 
-import type { Point, Polygon } from '../types';
+import type { BoundingBox, Point, Polygon } from '../types';
 
 // --- GEOMETRY HELPERS ---
 // EPSILON for geometric comparisons.
 // 1e-6 degrees ≈ 0.1m on the ground — appropriate for real-world GIS shapefile data
 // which often has floating-point differences at shared vertices between adjacent polygons.
-const EPSILON = 1e-6;
+export const EPSILON = 1e-6;
 
 /**
  * Calculates the distance between two lat/lon points in meters using the Haversine formula.
@@ -132,3 +132,122 @@ export const getPolygonCenter = (polygon: Polygon): Point => {
     center.y /= polygon.length;
     return center;
 };
+
+/** Computes the axis-aligned bounding box of a set of points. */
+export const getBoundingBox = (points: Point[]): BoundingBox => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+        if (p.x < minX) minX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y > maxY) maxY = p.y;
+    }
+    return { minX, minY, maxX, maxY };
+};
+
+/** Checks if two bounding boxes overlap or touch, allowing for a small tolerance. */
+export const boxesIntersect = (a: BoundingBox, b: BoundingBox, tolerance: number = EPSILON): boolean => {
+    return a.minX <= b.maxX + tolerance && b.minX <= a.maxX + tolerance &&
+        a.minY <= b.maxY + tolerance && b.minY <= a.maxY + tolerance;
+};
+
+/**
+ * Projects point `p` onto the segment `a`-`b`.
+ * Returns the closest point on the segment, its parameter `t` in [0, 1] along the segment,
+ * and the distance from `p` to that point.
+ */
+export const projectPointOnSegment = (p: Point, a: Point, b: Point): { point: Point; t: number; distance: number } => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const squaredLength = dx * dx + dy * dy;
+    const t = squaredLength > 0
+        ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / squaredLength))
+        : 0;
+    const point = { x: a.x + t * dx, y: a.y + t * dy };
+    return { point, t, distance: Math.hypot(p.x - point.x, p.y - point.y) };
+};
+
+/**
+ * Length of the part of segment `a1`-`a2` that segment `b1`-`b2` runs along.
+ * Both endpoints of `b` must lie within `tolerance` of the line through `a`, otherwise
+ * the segments are not considered collinear and the overlap is 0.
+ */
+export const getSegmentOverlapLength = (a1: Point, a2: Point, b1: Point, b2: Point, tolerance: number): number => {
+    const length = getEuclideanDistance(a1, a2);
+    if (length < EPSILON) return 0;
+
+    const ux = (a2.x - a1.x) / length;
+    const uy = (a2.y - a1.y) / length;
+    const offset = (p: Point) => Math.abs((p.x - a1.x) * uy - (p.y - a1.y) * ux);
+    if (offset(b1) > tolerance || offset(b2) > tolerance) return 0;
+
+    const along = (p: Point) => (p.x - a1.x) * ux + (p.y - a1.y) * uy;
+    const start = Math.max(0, Math.min(along(b1), along(b2)));
+    const end = Math.min(length, Math.max(along(b1), along(b2)));
+    return Math.max(0, end - start);
+};
+
+/** Checks if a point lies strictly inside a polygon (ray casting; boundary points may go either way). */
+export const isPointInPolygon = (p: Point, polygon: Polygon): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/** Checks if a point lies on the boundary of a polygon, within `tolerance`. */
+export const isPointOnPolygonBoundary = (p: Point, polygon: Polygon, tolerance: number = EPSILON): boolean => {
+    for (let i = 0; i < polygon.length; i++) {
+        if (projectPointOnSegment(p, polygon[i], polygon[(i + 1) % polygon.length]).distance <= tolerance) return true;
+    }
+    return false;
+};
+
+/** Checks if the interiors of segments `a1`-`a2` and `b1`-`b2` cross (touching endpoints don't count). */
+export const segmentsProperlyIntersect = (a1: Point, a2: Point, b1: Point, b2: Point): boolean => {
+    const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(b1, b2, a1);
+    const d2 = cross(b1, b2, a2);
+    const d3 = cross(a1, a2, b1);
+    const d4 = cross(a1, a2, b2);
+    // Scale the tolerance with the segment lengths so it works for degrees and metres alike
+    const scale = Math.max(getEuclideanDistance(a1, a2), getEuclideanDistance(b1, b2)) * EPSILON;
+    return ((d1 > scale && d2 < -scale) || (d1 < -scale && d2 > scale)) &&
+        ((d3 > scale && d4 < -scale) || (d3 < -scale && d4 > scale));
+};
+
+/**
+ * Returns a point guaranteed to lie inside the polygon when possible.
+ * Uses the vertex average when it is inside (convex and most real rooms); otherwise the
+ * middle of the widest horizontal span through it, which handles L- and U-shaped units.
+ */
+export const getInteriorPoint = (polygon: Polygon): Point => {
+    const center = getPolygonCenter(polygon);
+    if (polygon.length < 3 || isPointInPolygon(center, polygon)) return center;
+
+    const crossings: number[] = [];
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > center.y) !== (b.y > center.y)) {
+            crossings.push(((b.x - a.x) * (center.y - a.y)) / (b.y - a.y) + a.x);
+        }
+    }
+    crossings.sort((a, b) => a - b);
+
+    let best: Point | null = null;
+    let bestWidth = 0;
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const width = crossings[k + 1] - crossings[k];
+        if (width > bestWidth) {
+            bestWidth = width;
+            best = { x: (crossings[k] + crossings[k + 1]) / 2, y: center.y };
+        }
+    }
+    return best ?? center;
+};
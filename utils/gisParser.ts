@@ -116,6 +116,9 @@ const mapDetailType = (useType: string): DetailType => {
     if (upperUseType.startsWith('WALL')) {
         return DetailType.WALL;
     }
+    if (upperUseType.startsWith('OPEN')) {
+        return DetailType.OPENING;
+    }
     // Default fallback
     return DetailType.WALL;
 }
@@ -0,0 +1,99 @@
+import type { Point, Polygon } from '../types';
+import {
+    EPSILON,
+    getEuclideanDistance,
+    isPointInPolygon,
+    isPointOnPolygonBoundary,
+    projectPointOnSegment,
+    segmentsProperlyIntersect,
+} from './geometry';
+import { MinHeap } from './priorityQueue';
+
+/**
+ * Checks if the straight segment `a`-`b` stays inside the polygon (touching or running
+ * along the boundary is allowed, so door points on the outline work as endpoints).
+ */
+export const isSegmentInsidePolygon = (a: Point, b: Point, polygon: Polygon, tolerance: number = EPSILON): boolean => {
+    for (let i = 0; i < polygon.length; i++) {
+        if (segmentsProperlyIntersect(a, b, polygon[i], polygon[(i + 1) % polygon.length])) return false;
+    }
+
+    // Without proper crossings the segment can only leave the polygon by passing through a
+    // vertex, so check one sample point between every pair of vertices lying on it.
+    const ts = [0, 1];
+    for (const vertex of polygon) {
+        const projection = projectPointOnSegment(vertex, a, b);
+        if (projection.distance <= tolerance) ts.push(projection.t);
+    }
+    ts.sort((x, y) => x - y);
+    for (let k = 0; k < ts.length - 1; k++) {
+        if (ts[k + 1] - ts[k] < EPSILON) continue;
+        const t = (ts[k] + ts[k + 1]) / 2;
+        const sample = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+        if (!isPointInPolygon(sample, polygon) && !isPointOnPolygonBoundary(sample, polygon, tolerance)) return false;
+    }
+    return true;
+};
+
+/** Returns the polygon's reflex (inward-pointing) vertices — the only corners a shortest path bends around. */
+const getReflexVertices = (polygon: Polygon): Point[] => {
+    let signedArea = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const p = polygon[i];
+        const q = polygon[(i + 1) % polygon.length];
+        signedArea += p.x * q.y - q.x * p.y;
+    }
+    const orientation = Math.sign(signedArea) || 1;
+
+    return polygon.filter((vertex, i) => {
+        const prev = polygon[(i - 1 + polygon.length) % polygon.length];
+        const next = polygon[(i + 1) % polygon.length];
+        const turn = (vertex.x - prev.x) * (next.y - vertex.y) - (vertex.y - prev.y) * (next.x - vertex.x);
+        return turn * orientation < 0;
+    });
+};
+
+/**
+ * Finds the shortest walk from `a` to `b` that stays inside the polygon, using a
+ * visibility graph over the polygon's reflex vertices. Returns the points of the walk
+ * including both ends; falls back to the straight segment if no inside walk exists
+ * (e.g. an endpoint lies outside the polygon).
+ */
+export const findPathInPolygon = (a: Point, b: Point, polygon: Polygon, tolerance: number = EPSILON): Point[] => {
+    if (polygon.length < 3 || isSegmentInsidePolygon(a, b, polygon, tolerance)) return [a, b];
+
+    const points = [a, b, ...getReflexVertices(polygon)];
+    const distances = new Array<number>(points.length).fill(Infinity);
+    const previous = new Array<number>(points.length).fill(-1);
+    const visibility = new Map<string, boolean>();
+    const isVisible = (i: number, j: number) => {
+        const key = i < j ? `${i}:${j}` : `${j}:${i}`;
+        if (!visibility.has(key)) visibility.set(key, isSegmentInsidePolygon(points[i], points[j], polygon, tolerance));
+        return visibility.get(key)!;
+    };
+
+    const open = new MinHeap<number>();
+    distances[0] = 0;
+    open.push(0, 0);
+    while (!open.isEmpty()) {
+        const { item: u, priority } = open.pop()!;
+        if (priority > distances[u]) continue; // Stale heap entry
+        if (u === 1) break;
+        for (let v = 1; v < points.length; v++) {
+            if (v === u || !isVisible(u, v)) continue;
+            const alt = distances[u] + getEuclideanDistance(points[u], points[v]);
+            if (alt < distances[v]) {
+                distances[v] = alt;
+                previous[v] = u;
+                open.push(v, alt);
+            }
+        }
+    }
+
+    if (!isFinite(distances[1])) return [a, b];
+    const walk: Point[] = [];
+    for (let current = 1; current !== -1; current = previous[current]) {
+        walk.push(points[current]);
+    }
+    return walk.reverse();
+};
@@ -0,0 +1,78 @@
+/**
+ * A binary min-heap keyed by a numeric priority.
+ * Used by the router as the open set for A* / Dijkstra searches, giving
+ * O(log n) push and pop instead of a linear scan for the minimum.
+ *
+ * Decrease-key is not supported; callers push a new entry with the lower
+ * priority and skip stale entries when they are popped ("lazy deletion").
+ */
+export class MinHeap<T> {
+    private items: T[] = [];
+    private priorities: number[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    isEmpty(): boolean {
+        return this.items.length === 0;
+    }
+
+    push(item: T, priority: number): void {
+        this.items.push(item);
+        this.priorities.push(priority);
+        this.siftUp(this.items.length - 1);
+    }
+
+    /** Returns the priority of the smallest entry without removing it, or Infinity if empty. */
+    peekPriority(): number {
+        return this.priorities.length > 0 ? this.priorities[0] : Infinity;
+    }
+
+    /** Removes and returns the entry with the smallest priority. */
+    pop(): { item: T; priority: number } | undefined {
+        if (this.items.length === 0) return undefined;
+
+        const item = this.items[0];
+        const priority = this.priorities[0];
+        const lastItem = this.items.pop()!;
+        const lastPriority = this.priorities.pop()!;
+
+        if (this.items.length > 0) {
+            this.items[0] = lastItem;
+            this.priorities[0] = lastPriority;
+            this.siftDown(0);
+        }
+        return { item, priority };
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (this.priorities[parent] <= this.priorities[index]) break;
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        const length = this.items.length;
+        while (true) {
+            const left = 2 * index + 1;
+            const right = left + 1;
+            let smallest = index;
+
+            if (left < length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+            if (right < length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+            if (smallest === index) break;
+
+            this.swap(index, smallest);
+            index = smallest;
+        }
+    }
+
+    private swap(a: number, b: number): void {
+        [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    }
+}
@@ -0,0 +1,71 @@
+import type { BoundingBox } from '../types';
+import { boxesIntersect, EPSILON } from './geometry';
+
+/**
+ * A uniform-grid spatial index over bounding boxes.
+ *
+ * Each item is registered in every grid cell its bounding box covers, so a query only
+ * has to look at the items in the cells the query box covers. With a cell size close to
+ * the typical item size this turns "compare every pair" into a near-linear pass.
+ */
+export class GridIndex<T> {
+    private cells = new Map<string, { item: T; box: BoundingBox }[]>();
+
+    constructor(private cellSize: number) {
+        if (!(cellSize > 0) || !isFinite(cellSize)) this.cellSize = 1;
+    }
+
+    /**
+     * Picks a cell size from the average extent of the given boxes.
+     * Falls back to 1 when the boxes are empty or degenerate.
+     */
+    static cellSizeFor(boxes: BoundingBox[]): number {
+        if (boxes.length === 0) return 1;
+        const total = boxes.reduce((sum, b) => sum + Math.max(b.maxX - b.minX, b.maxY - b.minY), 0);
+        const average = total / boxes.length;
+        return average > EPSILON ? average : 1;
+    }
+
+    insert(item: T, box: BoundingBox): void {
+        this.forEachCell(box, key => {
+            let bucket = this.cells.get(key);
+            if (!bucket) {
+                bucket = [];
+                this.cells.set(key, bucket);
+            }
+            bucket.push({ item, box });
+        });
+    }
+
+    /** Returns every item whose bounding box intersects or touches `box`, each at most once. */
+    query(box: BoundingBox, tolerance: number = EPSILON): T[] {
+        const found = new Set<T>();
+        this.forEachCell({
+            minX: box.minX - tolerance,
+            minY: box.minY - tolerance,
+            maxX: box.maxX + tolerance,
+            maxY: box.maxY + tolerance,
+        }, key => {
+            const bucket = this.cells.get(key);
+            if (!bucket) return;
+            for (const entry of bucket) {
+                if (!found.has(entry.item) && boxesIntersect(entry.box, box, tolerance)) {
+                    found.add(entry.item);
+                }
+            }
+        });
+        return Array.from(found);
+    }
+
+    private forEachCell(box: BoundingBox, visit: (key: string) => void): void {
+        const x0 = Math.floor(box.minX / this.cellSize);
+        const x1 = Math.floor(box.maxX / this.cellSize);
+        const y0 = Math.floor(box.minY / this.cellSize);
+        const y1 = Math.floor(box.maxY / this.cellSize);
+        for (let x = x0; x <= x1; x++) {
+            for (let y = y0; y <= y1; y++) {
+                visit(`${x}:${y}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,110 @@
+// Up to this many intermediate stops the order is solved exactly (Held-Karp, O(2^k · k²)).
+const EXACT_STOP_LIMIT = 12;
+
+/** Total cost of visiting the stops in the given order. */
+export const getOrderCost = (costs: number[][], order: number[]): number => {
+    let total = 0;
+    for (let i = 0; i < order.length - 1; i++) total += costs[order[i]][order[i + 1]];
+    return total;
+};
+
+/** Held-Karp dynamic programme over subsets of the intermediate stops. */
+const solveExact = (costs: number[][]): number[] => {
+    const n = costs.length;
+    const k = n - 2; // Intermediate stops are 1..n-2; bit i stands for stop i + 1
+    const subsetCount = 1 << k;
+    // best[subset * k + last]: cheapest cost from stop 0 through `subset`, ending at `last`
+    const best = new Float64Array(subsetCount * k).fill(Infinity);
+    const parent = new Int32Array(subsetCount * k).fill(-1);
+
+    for (let i = 0; i < k; i++) best[(1 << i) * k + i] = costs[0][i + 1];
+
+    for (let subset = 1; subset < subsetCount; subset++) {
+        for (let last = 0; last < k; last++) {
+            if (!(subset & (1 << last))) continue;
+            const cost = best[subset * k + last];
+            if (cost === Infinity) continue;
+            for (let next = 0; next < k; next++) {
+                if (subset & (1 << next)) continue;
+                const extended = subset | (1 << next);
+                const alt = cost + costs[last + 1][next + 1];
+                if (alt < best[extended * k + next]) {
+                    best[extended * k + next] = alt;
+                    parent[extended * k + next] = last;
+                }
+            }
+        }
+    }
+
+    const full = subsetCount - 1;
+    let bestLast = 0;
+    let bestCost = Infinity;
+    for (let last = 0; last < k; last++) {
+        const total = best[full * k + last] + costs[last + 1][n - 1];
+        if (total < bestCost) {
+            bestCost = total;
+            bestLast = last;
+        }
+    }
+    // No order reaches every stop; keep the given one and let the caller report it
+    if (bestCost === Infinity) return Array.from({ length: n }, (_, i) => i);
+
+    const middle: number[] = [];
+    for (let subset = full, last = bestLast; last !== -1;) {
+        middle.push(last + 1);
+        const previous = parent[subset * k + last];
+        subset &= ~(1 << last);
+        last = previous;
+    }
+    return [0, ...middle.reverse(), n - 1];
+};
+
+/** Nearest-neighbour construction improved with 2-opt segment reversals until no move helps. */
+const solveHeuristic = (costs: number[][]): number[] => {
+    const n = costs.length;
+    const order = [0];
+    const remaining = new Set(Array.from({ length: n - 2 }, (_, i) => i + 1));
+    while (remaining.size > 0) {
+        const current = order[order.length - 1];
+        let nearest = -1;
+        for (const candidate of remaining) {
+            if (nearest === -1 || costs[current][candidate] < costs[current][nearest]) nearest = candidate;
+        }
+        order.push(nearest);
+        remaining.delete(nearest);
+    }
+    order.push(n - 1);
+
+    // Costs may be asymmetric, so each candidate reversal is scored on the whole order
+    let bestCost = getOrderCost(costs, order);
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (let i = 1; i < n - 2; i++) {
+            for (let j = i + 1; j < n - 1; j++) {
+                const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+                const cost = getOrderCost(costs, candidate);
+                if (cost < bestCost - 1e-9) {
+                    order.splice(0, n, ...candidate);
+                    bestCost = cost;
+                    improved = true;
+                }
+            }
+        }
+    }
+    return order;
+};
+
+/**
+ * Visiting order for a multi-stop route (a travelling-salesman path with fixed ends).
+ *
+ * `costs[i][j]` is the cost of travelling from stop i to stop j (Infinity if unreachable;
+ * costs may be asymmetric). Stop 0 is always visited first and the last stop last; the
+ * stops in between are reordered to minimise the total cost. Returns the stop indices
+ * in visiting order.
+ */
+export const solveStopOrder = (costs: number[][]): number[] => {
+    const n = costs.length;
+    if (n <= 3) return Array.from({ length: n }, (_, i) => i);
+    return n - 2 <= EXACT_STOP_LIMIT ? solveExact(costs) : solveHeuristic(costs);
+};
@@ -0,0 +1,124 @@
+/**
+ * Web Worker that owns the navigation graph and answers routing queries,
+ * keeping graph generation and path searches off the main (rendering) thread.
+ * See `services/routingEngine.ts` for the main-thread side of the protocol.
+ */
+import { generateNavigationGraph } from '../services/graphGenerator';
+import { createRoutingContext, findNearestUnits, findPath, getPathTravelTime, type RoutingContext } from '../services/pathfinder';
+import { planRoute } from '../services/routePlanner';
+import { computeEvacuationPlan } from '../services/evacuation';
+import { applyClosures, explainDetour } from '../services/closures';
+import { findAlternativePaths } from '../services/alternativeRoutes';
+import { addAnchors } from '../services/routeAnchors';
+import type { ResolvedClosure } from '../types';
+import type { RoutingWorkerRequest, RoutingWorkerResponse } from './routingProtocol';
+
+// The graph as built, and as routed on: without the edges of the current closures
+let openContext: RoutingContext | null = null;
+let routingContext: RoutingContext | null = null;
+let closures: ResolvedClosure[] = [];
+
+const setGraphContext = (ctx: RoutingContext) => {
+    openContext = ctx;
+    routingContext = applyClosures(ctx, closures);
+};
+
+const post = (response: RoutingWorkerResponse) => self.postMessage(response);
+
+const handleRequest = (request: RoutingWorkerRequest) => {
+    switch (request.type) {
+        case 'build': {
+            const graph = generateNavigationGraph(request.data, progress => {
+                post({ type: 'progress', requestId: request.requestId, progress });
+            });
+            setGraphContext(createRoutingContext(graph, request.data.levels));
+            post({ type: 'built', requestId: request.requestId, graph });
+            break;
+        }
+        case 'load': {
+            setGraphContext(createRoutingContext(request.graph, request.levels));
+            post({ type: 'loaded', requestId: request.requestId });
+            break;
+        }
+        case 'setClosures': {
+            closures = request.closures;
+            if (openContext) routingContext = applyClosures(openContext, closures);
+            post({ type: 'closuresSet', requestId: request.requestId });
+            break;
+        }
+        case 'findPath': {
+            if (!routingContext || !openContext) throw new Error('Navigation graph has not been built yet.');
+            const ctx = addAnchors(routingContext, request.query.anchors);
+            const result = findPath(ctx, request.query, progress => {
+                post({ type: 'progress', requestId: request.requestId, progress });
+            });
+            const route = result
+                ? {
+                    path: result.path,
+                    travelTime: getPathTravelTime(ctx, result.path, request.query.profile.travelTime),
+                    detour: explainDetour(addAnchors(openContext, request.query.anchors), closures, request.query, result),
+                }
+                : null;
+            post({ type: 'path', requestId: request.requestId, route });
+            break;
+        }
+        case 'findAlternatives': {
+            if (!routingContext || !openContext) throw new Error('Navigation graph has not been built yet.');
+            const ctx = addAnchors(routingContext, request.query.anchors);
+            const open = addAnchors(openContext, request.query.anchors);
+            const found = findAlternativePaths(ctx, request.query, request.k, progress => {
+                post({ type: 'progress', requestId: request.requestId, progress });
+            });
+            const routes = found.map(result => ({
+                path: result.path,
+                travelTime: getPathTravelTime(ctx, result.path, request.query.profile.travelTime),
+                detour: explainDetour(open, closures, request.query, result),
+            }));
+            post({ type: 'alternatives', requestId: request.requestId, routes });
+            break;
+        }
+        case 'planRoute': {
+            if (!routingContext || !openContext) throw new Error('Navigation graph has not been built yet.');
+            const ctx = addAnchors(openContext, request.constraints.anchors);
+            const plan = planRoute(
+                addAnchors(routingContext, request.constraints.anchors),
+                request.stopIds,
+                request.constraints,
+                request.optimiseOrder,
+                progress => post({ type: 'progress', requestId: request.requestId, progress }),
+                (query, leg) => explainDetour(ctx, closures, query, leg)
+            );
+            post({ type: 'plan', requestId: request.requestId, plan });
+            break;
+        }
+        case 'findNearest': {
+            if (!routingContext) throw new Error('Navigation graph has not been built yet.');
+            const ctx = addAnchors(routingContext, request.constraints.anchors);
+            const found = findNearestUnits(ctx, request.startId, request.unitTypes, request.k, request.constraints, progress => {
+                post({ type: 'progress', requestId: request.requestId, progress });
+            });
+            const results = found.map(({ unitId, path }) => ({
+                unitId,
+                path,
+                travelTime: getPathTravelTime(ctx, path, request.constraints.profile.travelTime),
+            }));
+            post({ type: 'nearest', requestId: request.requestId, results });
+            break;
+        }
+        case 'evacuationPlan': {
+            if (!routingContext) throw new Error('Navigation graph has not been built yet.');
+            const plan = computeEvacuationPlan(routingContext, request.blockedExitIds);
+            post({ type: 'evacuation', requestId: request.requestId, plan });
+            break;
+        }
+    }
+};
+
+self.addEventListener('message', (event: MessageEvent<RoutingWorkerRequest>) => {
+    const request = event.data;
+    try {
+        handleRequest(request);
+    } catch (error) {
+        post({ type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+});
@@ -0,0 +1,27 @@
+import type { CampusData, EvacuationPlan, Level, NavigationGraph, NearbyUnit, ResolvedClosure, RouteConstraints, RoutePlan, RouteQuery, RouteResult, UnitType } from '../types';
+
+// --- Messages sent from the main thread to the routing worker ---
+
+export type RoutingWorkerRequest =
+    | { type: 'build'; requestId: number; data: CampusData }
+    | { type: 'load'; requestId: number; graph: NavigationGraph; levels: Level[] }
+    | { type: 'setClosures'; requestId: number; closures: ResolvedClosure[] }
+    | { type: 'findPath'; requestId: number; query: RouteQuery }
+    | { type: 'findAlternatives'; requestId: number; query: RouteQuery; k: number }
+    | { type: 'planRoute'; requestId: number; stopIds: string[]; constraints: RouteConstraints; optimiseOrder: boolean }
+    | { type: 'findNearest'; requestId: number; startId: string; unitTypes: UnitType[]; k: number; constraints: RouteConstraints }
+    | { type: 'evacuationPlan'; requestId: number; blockedExitIds: string[] };
+
+// --- Messages sent from the routing worker back to the main thread ---
+
+export type RoutingWorkerResponse =
+    | { type: 'progress'; requestId: number; progress: number }
+    | { type: 'built'; requestId: number; graph: NavigationGraph }
+    | { type: 'loaded'; requestId: number }
+    | { type: 'closuresSet'; requestId: number }
+    | { type: 'path'; requestId: number; route: RouteResult | null }
+    | { type: 'alternatives'; requestId: number; routes: RouteResult[] }
+    | { type: 'plan'; requestId: number; plan: RoutePlan | null }
+    | { type: 'nearest'; requestId: number; results: NearbyUnit[] }
+    | { type: 'evacuation'; requestId: number; plan: EvacuationPlan }
+    | { type: 'error'; requestId: number; message: string };